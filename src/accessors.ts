@@ -0,0 +1,68 @@
+import { Model } from "./model";
+import { ModelAttributes } from "./types";
+
+/**
+ * A model class whose instances have a property for each field of `T`, like the classes returned by
+ * `withAccessors`.
+ */
+export type AccessorModelClass<T extends ModelAttributes> = Omit<typeof Model, "prototype"> & {
+  new (data: T, persisted?: boolean): Model<T> & T;
+  prototype: Model<T> & T;
+};
+
+let instanceMembers: string[] | null = null;
+
+/**
+ * Get the names of the members every model instance has of its own, such as `data`, which would be
+ * shadowed by or overwrite a property defined on the prototype.
+ *
+ * @returns The names of the members.
+ */
+function getInstanceMembers(): string[] {
+  if (!instanceMembers) instanceMembers = Object.keys(new Model({}, true));
+  return instanceMembers;
+}
+
+/**
+ * Define a property on a model prototype for each field that doesn't have one yet, reading with `get`
+ * and writing with `set`, so assignments are change tracked. Fields named like an existing member,
+ * such as `get`, `persisted`, `data` or a relation, are skipped and keep the member; use `get` and
+ * `set` for them.
+ *
+ * @param prototype - The prototype of the model class.
+ * @param fields - The names of the fields.
+ */
+export function defineFieldAccessors(prototype: Model<any>, fields: string[]) {
+  for (const field of fields) {
+    if (field in prototype || getInstanceMembers().indexOf(field) !== -1) continue;
+    Object.defineProperty(prototype, field, {
+      configurable: true,
+      get(this: Model<any>) {
+        return this.get(field);
+      },
+      set(this: Model<any>, value: unknown) {
+        this.set(field, value);
+      },
+    });
+  }
+}
+
+/**
+ * Create a base class for models with a property for each field, so `person.firstName` can be used
+ * instead of `person.get("firstName")`, and `person.firstName = "Jane"` instead of
+ * `person.set("firstName", "Jane")`. Extend it instead of `Model`, as in
+ * `class Person extends withAccessors<PersonAttrs>() {}`. Properties are defined up front for the given
+ * fields and the fields with a spec in the `Persistence` decorator, and for other fields as they appear
+ * on models of the class. List optional fields that models may not have yet, so assigning them goes
+ * through `set` too.
+ *
+ * @param fields - The names of fields to define properties for up front.
+ * @returns A subclass of `Model` whose instances are also typed as `T`.
+ */
+export function withAccessors<T extends ModelAttributes>(fields: (keyof T & string)[] = []): AccessorModelClass<T> {
+  class ModelWithAccessors extends Model<T> {
+    protected static override accessors = true;
+  }
+  defineFieldAccessors(ModelWithAccessors.prototype, fields);
+  return ModelWithAccessors as unknown as AccessorModelClass<T>;
+}
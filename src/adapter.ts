@@ -1,4 +1,7 @@
+import { AggregateQuery } from "./aggregates";
 import { Model } from "./model";
+import { Query } from "./query";
+import { SchemaMismatch, TableSchema } from "./schema";
 import { ModelAttributes } from "./types";
 
 export interface SaveResult {
@@ -8,9 +11,18 @@ export interface SaveResult {
   rows: number;
 }
 
+/**
+ * The result of a bulk insert: the number of rows inserted and the primary key of each row, in the
+ * order of the models.
+ */
+export interface BulkInsertResult {
+  rows: number;
+  primaryKeys: any[];
+}
+
 /**
  * The adapter configuration interface.
- * 
+ *
  * @param C - The context type.
  * @param T - The model attributes type.
  */
@@ -21,6 +33,75 @@ export type AdapterConfig<T extends ModelAttributes> = {
   get: (context: any, primaryKey: any) => Promise<T | null>;
   getBy: (context: any, matchOrQuery: Partial<T> | string, bindValues?: any[]) => Promise<T | null>;
   insert: (context: any, model: Model<T>, data: Partial<T>) => Promise<SaveResult>;
-  update: (context: any, model: Model<T>, data: Partial<T>) => Promise<SaveResult>;
-  del: (context: any, model: Model<T>) => Promise<boolean>;
+  /**
+   * Write `data` to the model's row. If `conditions` are given, the row must also match them, as a
+   * match object, or nothing is written and the result reports failure. Models with optimistic locking
+   * pass the expected version this way.
+   */
+  update: (context: any, model: Model<T>, data: Partial<T>, conditions?: Partial<T>) => Promise<SaveResult>;
+  /**
+   * Delete the model's row, returning whether a row was deleted. `conditions` work as for `update`.
+   */
+  del: (context: any, model: Model<T>, conditions?: Partial<T>) => Promise<boolean>;
+  /**
+   * Optional. Insert many rows at once. `data[i]` holds the encoded fields of `models[i]`, and each
+   * model's primary key is put on it as `insert` does. Without it, `insert` is called for each model.
+   */
+  insertMany?: (context: any, models: Model<T>[], data: Partial<T>[]) => Promise<BulkInsertResult>;
+  /**
+   * Optional. Write `data` to every row matching a match object, returning the number of rows changed.
+   * Without it, the matching rows are loaded with `all` and written with `update` one by one.
+   */
+  updateAll?: (context: any, match: Partial<T>, data: Partial<T>) => Promise<number>;
+  /**
+   * Optional. Delete every row matching a match object, returning the number of rows deleted. Without
+   * it, the matching rows are loaded with `all` and deleted with `del` one by one.
+   */
+  deleteAll?: (context: any, match: Partial<T>) => Promise<number>;
+  /**
+   * Optional. Retrieve the rows matching a structured query. Adapters without it are queried through
+   * `all` and the query is evaluated in memory.
+   */
+  select?: (context: any, query: Query<T>) => Promise<T[]>;
+  /**
+   * Optional. Count the rows matching a structured query, ignoring its ordering, limit and offset.
+   */
+  count?: (context: any, query: Query<T>) => Promise<number>;
+  /**
+   * Optional. Retrieve the rows matching a structured query that sort strictly after a keyset
+   * position, used by cursor pagination. `after` holds the value of each of the query's orderings at
+   * the position, in order. Adapters without it are queried through `all` and the query is evaluated
+   * in memory.
+   */
+  selectAfter?: (context: any, query: Query<T>, after: any[]) => Promise<T[]>;
+  /**
+   * Optional. Compute an aggregate query, returning a row per group sorted by the grouped fields, with a
+   * key for each grouped field and each aggregate's alias. Without it, rows are loaded with `all` and
+   * aggregated in memory.
+   */
+  aggregate?: (context: any, query: AggregateQuery<T>) => Promise<Record<string, unknown>[]>;
+  /**
+   * Optional. Start a transaction on a context from `getContext` and return the context to use for
+   * operations inside it (which may be the same object).
+   */
+  begin?: (context: any) => Promise<any>;
+  /** Optional. Commit a transaction started with `begin`. */
+  commit?: (context: any) => Promise<void>;
+  /** Optional. Roll back a transaction started with `begin`. */
+  rollback?: (context: any) => Promise<void>;
+  /** Optional. Create a named savepoint inside a transaction, used by nested transactions. */
+  savepoint?: (context: any, name: string) => Promise<void>;
+  /** Optional. Release a savepoint, keeping its changes. */
+  releaseSavepoint?: (context: any, name: string) => Promise<void>;
+  /** Optional. Roll back to a savepoint, discarding changes made since it was created. */
+  rollbackToSavepoint?: (context: any, name: string) => Promise<void>;
+  /**
+   * Optional. Store the given fields in the named columns instead of those of the adapter's column
+   * naming. `Persistence` calls it with the column names from the field specs.
+   */
+  setColumnNames?: (names: Record<string, string>) => void;
+  /** Optional. Generate the statements that create the table and indexes of a schema. */
+  createTableSql?: (schema: TableSchema) => string[];
+  /** Optional. Compare a schema with the live table, returning the mismatches. */
+  checkTable?: (context: any, schema: TableSchema) => Promise<SchemaMismatch[]>;
 }
@@ -0,0 +1,24 @@
+import { randomUUID } from "crypto";
+
+/**
+ * How an adapter assigns primary keys to inserted rows that don't already have one.
+ *
+ * - `"uuid"`: a random UUID generated by the adapter.
+ * - `"autoincrement"`: an integer assigned by the database (or the adapter's own counter).
+ * - a function: called with the data being inserted, returns the primary key to use.
+ */
+export type PrimaryKeyStrategy = "uuid" | "autoincrement" | ((data: Record<string, unknown>) => any);
+
+/**
+ * Generate a primary key for a row using a client-side strategy. Returns `undefined` for
+ * `"autoincrement"`, where the key is assigned after the row is written.
+ *
+ * @param strategy - The primary key strategy.
+ * @param data - The data being inserted.
+ * @returns The generated primary key, or undefined.
+ */
+export function generatePrimaryKey(strategy: PrimaryKeyStrategy, data: Record<string, unknown>): any {
+  if (strategy === "uuid") return randomUUID();
+  if (strategy === "autoincrement") return undefined;
+  return strategy(data);
+}
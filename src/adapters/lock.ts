@@ -0,0 +1,55 @@
+/**
+ * A lock that serializes use of a connection. Statements outside transactions hold it while they run,
+ * and a transaction holds it from `begin` until it commits or rolls back, so statements of other async
+ * flows wait for the transaction instead of running inside it, and transactions wait for each other.
+ */
+export class ConnectionLock {
+  protected tail: Promise<void> = Promise.resolve();
+  protected holds: Map<object, { acquired: Promise<() => void>; count: number }> = new Map();
+
+  /**
+   * Wait until the lock is free and take it. Calls with the same owner share the lock instead of
+   * waiting for each other, and it's released once each of them has released it.
+   *
+   * @param owner - Optional. The owner to take the lock for, e.g. a transaction.
+   * @returns A promise that resolves to a function releasing the lock.
+   */
+  public acquire(owner?: object): Promise<() => void> {
+    if (!owner) return this.enqueue();
+    let hold = this.holds.get(owner);
+    if (!hold) {
+      hold = { acquired: this.enqueue(), count: 0 };
+      this.holds.set(owner, hold);
+    }
+    const current = hold;
+    current.count++;
+    return current.acquired.then((release) => () => {
+      if (--current.count > 0) return;
+      this.holds.delete(owner);
+      release();
+    });
+  }
+
+  /**
+   * Run a callback while holding the lock.
+   *
+   * @param callback - The callback to run.
+   * @returns A promise that resolves to the callback's result.
+   */
+  public async run<R>(callback: () => Promise<R> | R): Promise<R> {
+    const release = await this.acquire();
+    try {
+      return await callback();
+    } finally {
+      release();
+    }
+  }
+
+  protected enqueue(): Promise<() => void> {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => { release = resolve; });
+    const previous = this.tail;
+    this.tail = previous.then(() => released);
+    return previous.then(() => release);
+  }
+}
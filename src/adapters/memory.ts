@@ -0,0 +1,304 @@
+import { AdapterConfig, BulkInsertResult, SaveResult } from "../adapter";
+import { AggregateQuery, applyAggregate } from "../aggregates";
+import { Model } from "../model";
+import { applyQuery, Query } from "../query";
+import { currentTransaction } from "../transaction";
+import { ModelAttributes } from "../types";
+import { generatePrimaryKey, PrimaryKeyStrategy } from "./keys";
+import { ConnectionLock } from "./lock";
+
+export type MemoryContext<T extends ModelAttributes> = {
+  rows: Map<any, T>;
+  /** Releases the lock of the memory stores. Set on the contexts of open transactions, which hold it. */
+  release?: () => void;
+}
+
+export type MemoryAdapterOptions<T extends ModelAttributes> = {
+  /** The primary key field of the model. Defaults to `"id"`. */
+  primaryKeyField?: string;
+  /** How primary keys are assigned to inserted rows. Defaults to `"uuid"`. */
+  primaryKey?: PrimaryKeyStrategy;
+  /** Rows to seed the store with. */
+  rows?: T[];
+}
+
+/**
+ * A copy of a memory adapter's contents, as returned by `snapshot()`.
+ */
+export interface MemorySnapshot<T extends ModelAttributes> {
+  rows: T[];
+  nextId: number;
+}
+
+export type MemoryAdapter<T extends ModelAttributes> = AdapterConfig<T> & {
+  /** Copy the current contents of the store. */
+  snapshot: () => MemorySnapshot<T>;
+  /** Replace the contents of the store with a snapshot. */
+  restore: (snapshot: MemorySnapshot<T>) => void;
+  /** Remove all rows and reset the autoincrement counter. */
+  reset: () => void;
+}
+
+// one lock for every memory store, so transactions that use several stores can't wait for each other
+const lock = new ConnectionLock();
+
+/**
+ * Check whether a row matches an exact-match object, with the same semantics as the SQL adapters:
+ * `null` matches missing or null values, and keys whose value is `undefined` are ignored.
+ *
+ * @param row - The row to check.
+ * @param match - The object to match against.
+ * @returns True if the row matches.
+ */
+export function matchesRow(row: Record<string, unknown>, match: Record<string, unknown>): boolean {
+  for (const key of Object.keys(match)) {
+    const expected = match[key];
+    if (expected === undefined) continue;
+    if (expected === null) {
+      if (row[key] !== null && row[key] !== undefined) return false;
+    } else if (row[key] !== expected) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Create an adapter that keeps rows in memory. Useful for tests and prototyping. Raw query strings
+ * are not supported. Transactions on memory stores run one at a time, and while one is open,
+ * operations outside it wait, whichever stores they use.
+ *
+ * @param options - The adapter options.
+ * @returns The adapter configuration, with `snapshot`, `restore` and `reset` helpers.
+ */
+export function createMemoryAdapter<T extends ModelAttributes>(options: MemoryAdapterOptions<T> = {}): MemoryAdapter<T> {
+  const { primaryKeyField = "id", primaryKey: primaryKeyStrategy = "uuid" } = options;
+  const context: MemoryContext<T> = { rows: new Map() };
+  let nextId = 1;
+  // snapshots taken at the start of each open transaction and savepoint, innermost last
+  const journal: { name?: string; snapshot: MemorySnapshot<T> }[] = [];
+
+  function load(rows: T[]) {
+    context.rows.clear();
+    for (const row of rows) {
+      const primaryKey = row[primaryKeyField];
+      context.rows.set(primaryKey, { ...row });
+      if (typeof primaryKey === "number" && primaryKey >= nextId) nextId = primaryKey + 1;
+    }
+  }
+
+  function assertMatch(matchOrQuery?: Partial<T> | string): Partial<T> {
+    if (typeof matchOrQuery === "string") {
+      throw new Error("The memory adapter does not support query strings");
+    }
+    return matchOrQuery ?? {};
+  }
+
+  // outside transactions, wait for any open transaction so changes aren't made (and rolled back) in it
+  function useStore<R>(context: MemoryContext<T>, callback: () => R): Promise<R> {
+    return context.release ? Promise.resolve(callback()) : lock.run(callback);
+  }
+
+  function getPrimaryKeyField() {
+    return primaryKeyField;
+  }
+
+  async function getContext() {
+    return context;
+  }
+
+  async function all(context: MemoryContext<T>, matchOrQuery?: Partial<T> | string) {
+    const match = assertMatch(matchOrQuery);
+    return useStore(context, () => {
+      const rows: T[] = [];
+      context.rows.forEach((row) => {
+        if (matchesRow(row, match)) rows.push({ ...row });
+      });
+      return rows;
+    });
+  }
+
+  async function get(context: MemoryContext<T>, primaryKey: any) {
+    return useStore(context, () => {
+      const row = context.rows.get(primaryKey);
+      return row ? { ...row } : null;
+    });
+  }
+
+  async function getBy(context: MemoryContext<T>, matchOrQuery: Partial<T> | string) {
+    const rows = await all(context, matchOrQuery);
+    if (rows.length > 1) throw new Error("getBy returned multiple results");
+    return rows[0] || null;
+  }
+
+  async function select(context: MemoryContext<T>, query: Query<T>) {
+    return applyQuery(await all(context), query);
+  }
+
+  async function count(context: MemoryContext<T>, query: Query<T>) {
+    return applyQuery(await all(context), { where: query.where, orderBy: [] }).length;
+  }
+
+  async function selectAfter(context: MemoryContext<T>, query: Query<T>, after: any[]) {
+    return applyQuery(await all(context), query, after);
+  }
+
+  async function aggregate(context: MemoryContext<T>, query: AggregateQuery<T>) {
+    return applyAggregate(await all(context), query);
+  }
+
+  function insertRow(context: MemoryContext<T>, model: Model<T>, data: Partial<T>): SaveResult {
+    const row: Record<string, unknown> = { ...data };
+    let primaryKey = row[primaryKeyField];
+    if (primaryKey === undefined) {
+      primaryKey = generatePrimaryKey(primaryKeyStrategy, row);
+      if (primaryKey === undefined) primaryKey = nextId;
+    }
+    if (context.rows.has(primaryKey)) {
+      throw new Error(`Duplicate primary key: ${String(primaryKey)}`);
+    }
+    if (typeof primaryKey === "number" && primaryKey >= nextId) nextId = primaryKey + 1;
+
+    row[primaryKeyField] = primaryKey;
+    context.rows.set(primaryKey, row as T);
+    model.put(primaryKeyField, primaryKey as any);
+    return { success: true, inserted: true, rows: 1, primaryKey };
+  }
+
+  async function insert(context: MemoryContext<T>, model: Model<T>, data: Partial<T>): Promise<SaveResult> {
+    return useStore(context, () => insertRow(context, model, data));
+  }
+
+  async function update(context: MemoryContext<T>, model: Model<T>, data: Partial<T>, conditions?: Partial<T>): Promise<SaveResult> {
+    const primaryKey = model.get(primaryKeyField);
+    return useStore(context, (): SaveResult => {
+      const row = context.rows.get(primaryKey);
+      const fields = Object.keys(data).filter((field) => field !== primaryKeyField);
+      if (!row || fields.length === 0 || (conditions && !matchesRow(row, conditions))) {
+        return { success: false, inserted: false, rows: 0, primaryKey };
+      }
+      for (const field of fields) {
+        (row as Record<string, unknown>)[field] = data[field];
+      }
+      return { success: true, inserted: false, rows: 1, primaryKey };
+    });
+  }
+
+  async function del(context: MemoryContext<T>, model: Model<T>, conditions?: Partial<T>) {
+    const primaryKey = model.get(primaryKeyField);
+    return useStore(context, () => {
+      const row = context.rows.get(primaryKey);
+      if (!row || (conditions && !matchesRow(row, conditions))) return false;
+      return context.rows.delete(primaryKey);
+    });
+  }
+
+  async function insertMany(context: MemoryContext<T>, models: Model<T>[], data: Partial<T>[]): Promise<BulkInsertResult> {
+    return useStore(context, () => {
+      const result: BulkInsertResult = { rows: 0, primaryKeys: [] };
+      for (let i = 0; i < models.length; i++) {
+        const { rows, primaryKey } = insertRow(context, models[i]!, data[i] ?? {});
+        result.rows += rows;
+        result.primaryKeys.push(primaryKey);
+      }
+      return result;
+    });
+  }
+
+  async function updateAll(context: MemoryContext<T>, match: Partial<T>, data: Partial<T>) {
+    const fields = Object.keys(data).filter((field) => field !== primaryKeyField);
+    if (fields.length === 0) return 0;
+    return useStore(context, () => {
+      let changed = 0;
+      context.rows.forEach((row) => {
+        if (!matchesRow(row, match)) return;
+        for (const field of fields) {
+          (row as Record<string, unknown>)[field] = data[field];
+        }
+        changed++;
+      });
+      return changed;
+    });
+  }
+
+  async function deleteAll(context: MemoryContext<T>, match: Partial<T>) {
+    return useStore(context, () => {
+      const primaryKeys: any[] = [];
+      context.rows.forEach((row, primaryKey) => {
+        if (matchesRow(row, match)) primaryKeys.push(primaryKey);
+      });
+      for (const primaryKey of primaryKeys) {
+        context.rows.delete(primaryKey);
+      }
+      return primaryKeys.length;
+    });
+  }
+
+  // a transaction holds the lock until it finishes, so transactions run one at a time; the stores a
+  // transaction uses share the lock through its outermost transaction
+  async function begin(context: MemoryContext<T>): Promise<MemoryContext<T>> {
+    let transaction = currentTransaction();
+    while (transaction?.parent) transaction = transaction.parent;
+    const release = await lock.acquire(transaction);
+    journal.push({ snapshot: snapshot() });
+    return { rows: context.rows, release };
+  }
+
+  async function commit(context: MemoryContext<T>) {
+    journal.length = 0;
+    context.release?.();
+  }
+
+  async function rollback(context: MemoryContext<T>) {
+    const [outermost] = journal;
+    journal.length = 0;
+    if (outermost) restore(outermost.snapshot);
+    context.release?.();
+  }
+
+  async function savepoint(_context: MemoryContext<T>, name: string) {
+    journal.push({ name, snapshot: snapshot() });
+  }
+
+  function findSavepoint(name: string) {
+    const index = journal.map((entry) => entry.name).lastIndexOf(name);
+    if (index === -1) throw new Error(`No such savepoint: ${name}`);
+    return index;
+  }
+
+  async function releaseSavepoint(_context: MemoryContext<T>, name: string) {
+    journal.length = findSavepoint(name);
+  }
+
+  async function rollbackToSavepoint(_context: MemoryContext<T>, name: string) {
+    const index = findSavepoint(name);
+    restore(journal[index]!.snapshot);
+    journal.length = index;
+  }
+
+  function snapshot(): MemorySnapshot<T> {
+    const rows: T[] = [];
+    context.rows.forEach((row) => rows.push({ ...row }));
+    return { rows, nextId };
+  }
+
+  function restore(snapshot: MemorySnapshot<T>) {
+    load(snapshot.rows);
+    nextId = snapshot.nextId;
+  }
+
+  function reset() {
+    context.rows.clear();
+    nextId = 1;
+    journal.length = 0;
+  }
+
+  load(options.rows ?? []);
+
+  return {
+    getPrimaryKeyField, getContext, all, get, getBy, insert, update, del, select, count, selectAfter, aggregate,
+    insertMany, updateAll, deleteAll,
+    begin, commit, rollback, savepoint, releaseSavepoint, rollbackToSavepoint,
+    snapshot, restore, reset,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * A `ColumnNaming` maps model field names to database column names and back.
+ */
+export interface ColumnNaming {
+  toColumn(field: string): string;
+  toField(column: string): string;
+}
+
+/**
+ * Column names are identical to field names.
+ */
+export const camelCaseNaming: ColumnNaming = {
+  toColumn: (field) => field,
+  toField: (column) => column,
+};
+
+/**
+ * Fields are camelCase in the model and snake_case in the database.
+ */
+export const snakeCaseNaming: ColumnNaming = {
+  toColumn: (field) => field.replace(/([A-Z])/g, "_$1").toLowerCase(),
+  toField: (column) => column.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()),
+};
+
+export type ColumnNamingOption = "camel" | "snake" | ColumnNaming;
+
+/**
+ * Resolve a `ColumnNamingOption` to a `ColumnNaming` implementation.
+ *
+ * @param option - The naming option; defaults to `"camel"` (no conversion).
+ * @returns The column naming implementation.
+ */
+export function resolveColumnNaming(option: ColumnNamingOption = "camel"): ColumnNaming {
+  if (option === "camel") return camelCaseNaming;
+  if (option === "snake") return snakeCaseNaming;
+  return option;
+}
+
+/**
+ * Quote an SQL identifier, escaping any embedded double quotes.
+ *
+ * @param identifier - The table or column name to quote.
+ * @returns The quoted identifier.
+ */
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
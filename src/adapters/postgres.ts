@@ -0,0 +1,386 @@
+import { Pool, PoolClient, QueryResultRow } from "pg";
+import { AdapterConfig, BulkInsertResult, SaveResult } from "../adapter";
+import { AggregateQuery } from "../aggregates";
+import { MigrationStore } from "../migrations";
+import { Model } from "../model";
+import { Query } from "../query";
+import { ColumnSchema, TableSchema } from "../schema";
+import { ColumnType, ModelAttributes } from "../types";
+import { PrimaryKeyStrategy } from "./keys";
+import { ColumnNamingOption, quoteIdentifier } from "./naming";
+import {
+  buildAggregate, buildCount, buildCreateTable, buildDelete, buildFindAll, buildInsert, buildSelect, buildUpdate,
+  compareTable, createColumnMapping, LiveTable, postgresDialect, readAggregateRow, rowToAttributes, toColumnDefinitions,
+} from "./sql";
+
+export type PostgresContext = {
+  pool: Pool;
+  /** The client holding the connection of the current transaction. Unset outside transactions. */
+  client?: PoolClient;
+}
+
+// adapters sharing a pool share a context, so transactions span all of them
+const sharedContexts = new WeakMap<Pool, PostgresContext>();
+const pools = new Map<string, Pool>();
+
+const columnTypes: Record<ColumnType, string> = {
+  text: "TEXT",
+  integer: "INTEGER",
+  real: "DOUBLE PRECISION",
+  boolean: "BOOLEAN",
+  datetime: "TIMESTAMPTZ",
+  json: "JSONB",
+  blob: "BYTEA",
+};
+
+// the declared types of the type names in information_schema, which abbreviates some of them
+const liveColumnTypes: Record<string, string> = {
+  int4: "INTEGER",
+  float8: "DOUBLE PRECISION",
+  float: "DOUBLE PRECISION",
+  bool: "BOOLEAN",
+};
+
+export type PostgresAdapterOptions = {
+  /** The table that stores the model's rows. */
+  tableName: string;
+  /** The primary key field of the model. Defaults to `"id"`. */
+  primaryKeyField?: string;
+  /**
+   * The connection string of the database. Pools are cached per connection string, so adapters
+   * pointing at the same database share one pool. Defaults to the `PG*` environment variables when
+   * no `pool` is given.
+   */
+  connectionString?: string;
+  /** A connection pool, or a function returning one. Takes precedence over `connectionString`. */
+  pool?: Pool | (() => Promise<Pool>);
+  /** How field names map to column names. Defaults to `"camel"` (no conversion). */
+  columnNaming?: ColumnNamingOption;
+  /** How primary keys are assigned to inserted rows. Defaults to `"uuid"`. */
+  primaryKey?: PrimaryKeyStrategy;
+}
+
+/**
+ * Convert the `?` placeholders of a statement to PostgreSQL's numbered `$1`, `$2`, ... placeholders.
+ * Question marks in quoted strings and identifiers are left alone, and so are statements that already
+ * use numbered placeholders.
+ *
+ * @param sql - The statement.
+ * @returns The statement with numbered placeholders.
+ */
+function toNumberedPlaceholders(sql: string): string {
+  const quoted = /'(?:[^']|'')*'|"(?:[^"]|"")*"/g;
+  if (/\$\d/.test(sql.replace(quoted, ""))) return sql;
+  let index = 0;
+  return sql.replace(new RegExp(`${quoted.source}|\\?`, "g"), (match) => match === "?" ? `$${++index}` : match);
+}
+
+async function query<R extends QueryResultRow>(context: PostgresContext, sql: string, values: any[] = []) {
+  return (context.client ?? context.pool).query<R>(toNumberedPlaceholders(sql), values);
+}
+
+/**
+ * Convert a column default as the database reports it to the SQL it was declared with, by removing
+ * type casts. Sequence defaults, as of `SERIAL` columns, are reported as no default.
+ *
+ * @param value - The reported default.
+ * @returns The default as an SQL expression, or null if there is none.
+ */
+function readColumnDefault(value: string | null): string | null {
+  if (value === null || /^nextval\(/i.test(value)) return null;
+  const cast = /^(.*?)::[a-z ]+$/i.exec(value);
+  const uncast = cast ? cast[1]! : value;
+  // negative numbers are reported as casted strings, e.g. '-1'::integer
+  const number = cast ? /^'(-?\d+(?:\.\d+)?)'$/.exec(uncast) : null;
+  if (number && !/text|char|json/i.test(value)) return number[1]!;
+  return /^(true|false)$/i.test(uncast) ? uncast.toUpperCase() : uncast;
+}
+
+async function readTable(context: PostgresContext, tableName: string): Promise<LiveTable | null> {
+  const { rows: columns } = await query<{ column_name: string; udt_name: string; is_nullable: string; column_default: string | null }>(
+    context,
+    `SELECT column_name, udt_name, is_nullable, column_default FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = ? ORDER BY ordinal_position`,
+    [tableName]
+  );
+  if (columns.length === 0) return null;
+
+  const { rows: primaryKeys } = await query<{ column_name: string }>(
+    context,
+    `SELECT k.column_name FROM information_schema.table_constraints c
+      JOIN information_schema.key_column_usage k ON k.constraint_name = c.constraint_name AND k.table_schema = c.table_schema
+      WHERE c.constraint_type = 'PRIMARY KEY' AND c.table_schema = current_schema() AND c.table_name = ?`,
+    [tableName]
+  );
+  // information_schema has no indexes, so they are read from the catalog
+  const { rows: indexColumns } = await query<{ index_name: string; is_unique: boolean; column_name: string }>(
+    context,
+    `SELECT i.relname AS index_name, x.indisunique AS is_unique, a.attname AS column_name
+      FROM pg_catalog.pg_index x
+      JOIN pg_catalog.pg_class t ON t.oid = x.indrelid
+      JOIN pg_catalog.pg_class i ON i.oid = x.indexrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(x.indkey)
+      WHERE n.nspname = current_schema() AND t.relname = ? AND NOT x.indisprimary
+      ORDER BY i.relname`,
+    [tableName]
+  );
+
+  const live: LiveTable = {
+    columns: columns.map((column) => ({
+      name: column.column_name,
+      type: liveColumnTypes[column.udt_name] ?? column.udt_name.toUpperCase(),
+      nullable: column.is_nullable === "YES",
+      default: readColumnDefault(column.column_default),
+      primaryKey: primaryKeys.some((primaryKey) => primaryKey.column_name === column.column_name),
+    })),
+    indexes: [],
+  };
+  for (const row of indexColumns) {
+    const index = live.indexes.find((candidate) => candidate.name === row.index_name);
+    if (index) {
+      index.columns.push(row.column_name);
+    } else {
+      live.indexes.push({ name: row.index_name, unique: row.is_unique, columns: [row.column_name] });
+    }
+  }
+  return live;
+}
+
+/**
+ * Create an adapter that persists a model to a PostgreSQL table.
+ *
+ * @param options - The adapter options.
+ * @returns The adapter configuration.
+ */
+export function createPostgresAdapter<T extends ModelAttributes>(options: PostgresAdapterOptions): AdapterConfig<T> {
+  const { tableName, primaryKeyField = "id", primaryKey: primaryKeyStrategy = "uuid" } = options;
+  const { naming, setColumnNames } = createColumnMapping(options.columnNaming);
+  const table = quoteIdentifier(tableName);
+  let contextPromise: Promise<PostgresContext> | null = null;
+
+  async function connect(): Promise<PostgresContext> {
+    const { pool: poolOption, connectionString } = options;
+    let pool: Pool;
+    if (typeof poolOption === "function") {
+      pool = await poolOption();
+    } else if (poolOption) {
+      pool = poolOption;
+    } else {
+      const key = connectionString ?? "";
+      pool = pools.get(key) ?? new Pool(connectionString ? { connectionString } : {});
+      pools.set(key, pool);
+    }
+    let context = sharedContexts.get(pool);
+    if (!context) {
+      context = { pool };
+      sharedContexts.set(pool, context);
+    }
+    return context;
+  }
+
+  function getPrimaryKeyField() {
+    return primaryKeyField;
+  }
+
+  function getContext() {
+    if (!contextPromise) {
+      contextPromise = connect();
+      contextPromise.catch(() => { contextPromise = null; });
+    }
+    return contextPromise;
+  }
+
+  async function all(context: PostgresContext, matchOrQuery?: Partial<T> | string, bindValues?: any[]) {
+    const { sql, values } = buildFindAll(table, matchOrQuery, bindValues, naming);
+    const { rows } = await query(context, sql, values);
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function get(context: PostgresContext, primaryKey: any) {
+    const { rows } = await query(
+      context,
+      `SELECT * FROM ${table} WHERE ${quoteIdentifier(naming.toColumn(primaryKeyField))} = ?`,
+      [primaryKey]
+    );
+    return rows[0] ? rowToAttributes<T>(rows[0], naming) : null;
+  }
+
+  async function getBy(context: PostgresContext, matchOrQuery: Partial<T> | string, bindValues?: any[]) {
+    const rows = await all(context, matchOrQuery, bindValues);
+    if (rows.length > 1) throw new Error("getBy returned multiple results");
+    return rows[0] || null;
+  }
+
+  async function select(context: PostgresContext, selectQuery: Query<T>) {
+    const { sql, values } = buildSelect(table, selectQuery, naming, postgresDialect);
+    const { rows } = await query(context, sql, values);
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function count(context: PostgresContext, countQuery: Query<T>) {
+    const { sql, values } = buildCount(table, countQuery, naming, postgresDialect);
+    // COUNT(*) is a bigint, which the driver returns as a string
+    const { rows } = await query<{ count: string | number }>(context, sql, values);
+    return rows[0] ? Number(rows[0].count) : 0;
+  }
+
+  async function selectAfter(context: PostgresContext, selectQuery: Query<T>, after: any[]) {
+    const { sql, values } = buildSelect(table, selectQuery, naming, postgresDialect, after);
+    const { rows } = await query(context, sql, values);
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function aggregate(context: PostgresContext, aggregateQuery: AggregateQuery<T>) {
+    const { sql, values } = buildAggregate(table, aggregateQuery, naming, postgresDialect);
+    const { rows } = await query(context, sql, values);
+    return rows.map((row) => readAggregateRow(row, aggregateQuery));
+  }
+
+  async function begin(context: PostgresContext): Promise<PostgresContext> {
+    const client = await context.pool.connect();
+    try {
+      await client.query("BEGIN");
+    } catch (err) {
+      client.release(err as Error);
+      throw err;
+    }
+    return { pool: context.pool, client };
+  }
+
+  async function finish(context: PostgresContext, statement: string) {
+    const client = context.client!;
+    try {
+      await client.query(statement);
+    } catch (err) {
+      // a connection in an unknown transaction state must not go back to the pool
+      client.release(err as Error);
+      throw err;
+    }
+    client.release();
+  }
+
+  async function commit(context: PostgresContext) {
+    await finish(context, "COMMIT");
+  }
+
+  async function rollback(context: PostgresContext) {
+    await finish(context, "ROLLBACK");
+  }
+
+  async function savepoint(context: PostgresContext, name: string) {
+    await query(context, `SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  async function releaseSavepoint(context: PostgresContext, name: string) {
+    await query(context, `RELEASE SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  async function rollbackToSavepoint(context: PostgresContext, name: string) {
+    await query(context, `ROLLBACK TO SAVEPOINT ${quoteIdentifier(name)}`);
+    await query(context, `RELEASE SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  async function insert(context: PostgresContext, model: Model<T>, data: Partial<T>): Promise<SaveResult> {
+    const returning = `RETURNING ${quoteIdentifier(naming.toColumn(primaryKeyField))} AS "primaryKey"`;
+    const { row, sql, values } = buildInsert(table, data, primaryKeyField, primaryKeyStrategy, naming, returning);
+    const res = await query<{ primaryKey: unknown }>(context, sql, values);
+
+    // the key comes back from the database, so keys assigned by column defaults are populated too
+    const primaryKey = res.rows[0] ? res.rows[0].primaryKey : row[primaryKeyField];
+    const success = !!res.rowCount;
+    if (success) {
+      model.put(primaryKeyField, primaryKey as any);
+    }
+    return { success, inserted: true, rows: res.rowCount || 0, primaryKey };
+  }
+
+  async function insertMany(context: PostgresContext, models: Model<T>[], data: Partial<T>[]): Promise<BulkInsertResult> {
+    const result: BulkInsertResult = { rows: 0, primaryKeys: [] };
+    for (let i = 0; i < models.length; i++) {
+      const { rows, primaryKey } = await insert(context, models[i]!, data[i] ?? {});
+      result.rows += rows;
+      result.primaryKeys.push(primaryKey);
+    }
+    return result;
+  }
+
+  async function update(context: PostgresContext, model: Model<T>, data: Partial<T>, conditions?: Partial<T>): Promise<SaveResult> {
+    const primaryKey = model.get(primaryKeyField);
+    const statement = buildUpdate(table, data, { [primaryKeyField]: primaryKey, ...conditions }, primaryKeyField, naming);
+    if (!statement) {
+      return { success: false, inserted: false, rows: 0, primaryKey };
+    }
+    const res = await query(context, statement.sql, statement.values);
+    return { success: !!res.rowCount, inserted: false, rows: res.rowCount || 0, primaryKey };
+  }
+
+  async function del(context: PostgresContext, model: Model<T>, conditions?: Partial<T>) {
+    const { sql, values } = buildDelete(table, { [primaryKeyField]: model.get(primaryKeyField), ...conditions }, naming);
+    const res = await query(context, sql, values);
+    return !!res.rowCount;
+  }
+
+  async function updateAll(context: PostgresContext, match: Partial<T>, data: Partial<T>) {
+    const statement = buildUpdate(table, data, match, primaryKeyField, naming);
+    if (!statement) return 0;
+    const res = await query(context, statement.sql, statement.values);
+    return res.rowCount || 0;
+  }
+
+  async function deleteAll(context: PostgresContext, match: Partial<T>) {
+    const { sql, values } = buildDelete(table, match, naming);
+    const res = await query(context, sql, values);
+    return res.rowCount || 0;
+  }
+
+  function columnType(column: ColumnSchema) {
+    if (column.primaryKey && primaryKeyStrategy === "autoincrement" && (!column.type || column.type === "integer")) return "SERIAL";
+    return column.type ? columnTypes[column.type] : "TEXT";
+  }
+
+  function createTableSql(schema: TableSchema) {
+    const columns = toColumnDefinitions(tableName, schema, naming, columnType);
+    return buildCreateTable(tableName, columns, () => "PRIMARY KEY");
+  }
+
+  async function checkTable(context: PostgresContext, schema: TableSchema) {
+    // a SERIAL column is an INTEGER column with a sequence default, and is reported as one
+    const columns = toColumnDefinitions(tableName, schema, naming, columnType)
+      .map((column) => column.type === "SERIAL" ? { ...column, type: "INTEGER" } : column);
+    return compareTable(tableName, columns, await readTable(context, tableName));
+  }
+
+  return {
+    getPrimaryKeyField, getContext, all, get, getBy, insert, update, del, select, count, selectAfter, aggregate,
+    insertMany, updateAll, deleteAll,
+    begin, commit, rollback, savepoint, releaseSavepoint, rollbackToSavepoint,
+    setColumnNames, createTableSql, checkTable,
+  };
+}
+
+/**
+ * Create a migration store that records applied migrations in a table of a PostgreSQL database. Use
+ * it with a `Migrator` whose adapter is a PostgreSQL adapter on the same database.
+ *
+ * @param options - The name of the migrations table. Defaults to `"schema_migrations"`.
+ * @returns The migration store.
+ */
+export function createPostgresMigrationStore(options: { tableName?: string } = {}): MigrationStore {
+  const table = quoteIdentifier(options.tableName ?? "schema_migrations");
+  return {
+    async prepare(context: PostgresContext) {
+      await query(context, `CREATE TABLE IF NOT EXISTS ${table} ("name" TEXT PRIMARY KEY, "applied_at" TIMESTAMPTZ NOT NULL)`);
+    },
+    async applied(context: PostgresContext) {
+      const { rows } = await query<{ name: string; applied_at: Date }>(context, `SELECT "name", "applied_at" FROM ${table} ORDER BY "name"`);
+      return rows.map((row) => ({ name: row.name, appliedAt: new Date(row.applied_at) }));
+    },
+    async record(context: PostgresContext, name: string, appliedAt: Date) {
+      await query(context, `INSERT INTO ${table} ("name", "applied_at") VALUES (?, ?)`, [name, appliedAt]);
+    },
+    async forget(context: PostgresContext, name: string) {
+      await query(context, `DELETE FROM ${table} WHERE "name" = ?`, [name]);
+    },
+  };
+}
\ No newline at end of file
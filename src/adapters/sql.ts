@@ -0,0 +1,569 @@
+import { AggregateQuery } from "../aggregates";
+import { Condition, Ordering, Query } from "../query";
+import { ColumnSchema, SchemaMismatch, SchemaMismatchKind, TableSchema } from "../schema";
+import { ColumnDefault, ModelAttributes } from "../types";
+import { generatePrimaryKey, PrimaryKeyStrategy } from "./keys";
+import { ColumnNaming, ColumnNamingOption, quoteIdentifier, resolveColumnNaming } from "./naming";
+
+/**
+ * A fragment of SQL together with the values bound to its placeholders.
+ */
+export interface SqlFragment {
+  sql: string;
+  values: any[];
+}
+
+/**
+ * Build a `WHERE` clause from an exact-match object. `null` values match `IS NULL`, and keys whose
+ * value is `undefined` are ignored.
+ *
+ * @param match - The object to match against.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The clause (empty if there is nothing to match) and its bind values.
+ */
+export function buildMatchClause(match: Record<string, unknown>, naming: ColumnNaming): SqlFragment {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  for (const key of Object.keys(match)) {
+    const value = match[key];
+    if (value === undefined) continue;
+    const column = quoteIdentifier(naming.toColumn(key));
+    if (value === null) {
+      conditions.push(`${column} IS NULL`);
+    } else {
+      conditions.push(`${column} = ?`);
+      values.push(value);
+    }
+  }
+  return { sql: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", values };
+}
+
+/**
+ * The column naming of an adapter, with the column names declared in field specs taking precedence.
+ */
+export interface ColumnMapping {
+  naming: ColumnNaming;
+  /** Use the given column names, keyed by field, instead of the column naming's. */
+  setColumnNames: (names: Record<string, string>) => void;
+}
+
+/**
+ * Create the column mapping of an adapter.
+ *
+ * @param option - The adapter's `columnNaming` option.
+ * @returns The column naming and a `setColumnNames` function for the adapter.
+ */
+export function createColumnMapping(option?: ColumnNamingOption): ColumnMapping {
+  const baseNaming = resolveColumnNaming(option);
+  const columnNames: Record<string, string> = {};
+  const fieldNames: Record<string, string> = {};
+  return {
+    naming: {
+      toColumn: (field) => columnNames[field] ?? baseNaming.toColumn(field),
+      toField: (column) => fieldNames[column] ?? baseNaming.toField(column),
+    },
+    setColumnNames(names) {
+      for (const field of Object.keys(names)) {
+        columnNames[field] = names[field]!;
+        fieldNames[names[field]!] = field;
+      }
+    },
+  };
+}
+
+/**
+ * Build the statement of an adapter's `all`: a `SELECT` from an exact-match object, or from a raw
+ * query string, which is either a full statement or a clause appended to `SELECT * FROM table`.
+ *
+ * @param table - The quoted table name.
+ * @param matchOrQuery - Optional. The object to match against, or a raw query string.
+ * @param bindValues - Optional. The values bound to a raw query string.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The statement and its bind values.
+ */
+export function buildFindAll(
+  table: string,
+  matchOrQuery: Record<string, unknown> | string | undefined,
+  bindValues: any[] | undefined,
+  naming: ColumnNaming
+): SqlFragment {
+  if (typeof matchOrQuery === "string") {
+    return { sql: isFullStatement(matchOrQuery) ? matchOrQuery : `SELECT * FROM ${table} ${matchOrQuery}`, values: bindValues ?? [] };
+  }
+  const where = buildMatchClause(matchOrQuery ?? {}, naming);
+  return { sql: `SELECT * FROM ${table} ${where.sql}`, values: where.values };
+}
+
+/**
+ * Build an `INSERT` statement for a row. Rows without a primary key get one from the primary key
+ * strategy, or from the database if the strategy doesn't generate keys.
+ *
+ * @param table - The quoted table name.
+ * @param data - The encoded fields to insert.
+ * @param primaryKeyField - The primary key field.
+ * @param primaryKeyStrategy - How primary keys are assigned.
+ * @param naming - The column naming used to map fields to columns.
+ * @param suffix - Optional. SQL to append, e.g. a `RETURNING` clause.
+ * @returns The statement and its bind values, and the row that is inserted.
+ */
+export function buildInsert(
+  table: string,
+  data: Record<string, unknown>,
+  primaryKeyField: string,
+  primaryKeyStrategy: PrimaryKeyStrategy,
+  naming: ColumnNaming,
+  suffix: string = ""
+): SqlFragment & { row: Record<string, unknown> } {
+  const row: Record<string, unknown> = { ...data };
+  if (row[primaryKeyField] === undefined) {
+    const generated = generatePrimaryKey(primaryKeyStrategy, row);
+    if (generated === undefined) {
+      delete row[primaryKeyField];
+    } else {
+      row[primaryKeyField] = generated;
+    }
+  }
+
+  const fields = Object.keys(row);
+  const sql = fields.length
+    ? `INSERT INTO ${table} (${fields.map((field) => quoteIdentifier(naming.toColumn(field))).join(", ")}) VALUES (${fields.map(() => "?").join(", ")})`
+    : `INSERT INTO ${table} DEFAULT VALUES`;
+  return { sql: suffix ? `${sql} ${suffix}` : sql, values: fields.map((field) => row[field]), row };
+}
+
+/**
+ * Build an `UPDATE` statement that writes fields to the rows matching an exact-match object. The
+ * primary key is never written.
+ *
+ * @param table - The quoted table name.
+ * @param data - The encoded fields to write.
+ * @param match - The object to match against.
+ * @param primaryKeyField - The primary key field.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The statement and its bind values, or null if there is nothing to write.
+ */
+export function buildUpdate(
+  table: string,
+  data: Record<string, unknown>,
+  match: Record<string, unknown>,
+  primaryKeyField: string,
+  naming: ColumnNaming
+): SqlFragment | null {
+  const fields = Object.keys(data).filter((field) => field !== primaryKeyField);
+  if (fields.length === 0) return null;
+  const assignments = fields.map((field) => `${quoteIdentifier(naming.toColumn(field))} = ?`).join(", ");
+  const where = buildMatchClause(match, naming);
+  return {
+    sql: `UPDATE ${table} SET ${assignments} ${where.sql}`,
+    values: [...fields.map((field) => data[field]), ...where.values],
+  };
+}
+
+/**
+ * Build a `DELETE` statement for the rows matching an exact-match object.
+ *
+ * @param table - The quoted table name.
+ * @param match - The object to match against.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The statement and its bind values.
+ */
+export function buildDelete(table: string, match: Record<string, unknown>, naming: ColumnNaming): SqlFragment {
+  const where = buildMatchClause(match, naming);
+  return { sql: `DELETE FROM ${table} ${where.sql}`, values: where.values };
+}
+
+/**
+ * The differences between the SQL dialects of the adapters that the query builders account for.
+ */
+export interface SqlDialect {
+  /** The operator of `like` conditions, which are case-insensitive. */
+  like: string;
+  /** The limit that means "no limit", bound when a query has an offset but no limit. */
+  noLimit: number | null;
+}
+
+export const sqliteDialect: SqlDialect = { like: "LIKE", noLimit: -1 };
+
+export const postgresDialect: SqlDialect = { like: "ILIKE", noLimit: null };
+
+const comparisonOperators: Record<string, string> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "LIKE",
+};
+
+/**
+ * Build the SQL for a single condition of a structured query.
+ *
+ * @param condition - The condition.
+ * @param naming - The column naming used to map fields to columns.
+ * @param dialect - The SQL dialect. Defaults to SQLite's.
+ * @returns The SQL expression and its bind values.
+ */
+export function buildCondition<T extends ModelAttributes>(
+  condition: Condition<T>,
+  naming: ColumnNaming,
+  dialect: SqlDialect = sqliteDialect
+): SqlFragment {
+  const column = quoteIdentifier(naming.toColumn(condition.field));
+  const { operator, value } = condition;
+  if (operator === "isNull") {
+    return { sql: `${column} ${value === false ? "IS NOT NULL" : "IS NULL"}`, values: [] };
+  }
+  if (operator === "in" || operator === "notIn") {
+    const list = value as any[];
+    if (list.length === 0) return { sql: operator === "in" ? "0 = 1" : "1 = 1", values: [] };
+    const placeholders = list.map(() => "?").join(", ");
+    return { sql: `${column} ${operator === "in" ? "IN" : "NOT IN"} (${placeholders})`, values: list.slice() };
+  }
+  const sqlOperator = operator === "like" ? dialect.like : comparisonOperators[operator];
+  return { sql: `${column} ${sqlOperator} ?`, values: [value] };
+}
+
+/**
+ * Build a `WHERE` clause from the conditions of a structured query.
+ *
+ * @param conditions - The conditions, all of which must hold.
+ * @param naming - The column naming used to map fields to columns.
+ * @param dialect - The SQL dialect. Defaults to SQLite's.
+ * @returns The clause (empty if there are no conditions) and its bind values.
+ */
+export function buildWhereClause<T extends ModelAttributes>(
+  conditions: Condition<T>[],
+  naming: ColumnNaming,
+  dialect: SqlDialect = sqliteDialect
+): SqlFragment {
+  const parts = conditions.map((condition) => buildCondition(condition, naming, dialect));
+  const values: any[] = [];
+  for (const part of parts) values.push(...part.values);
+  return { sql: parts.length ? `WHERE ${parts.map((part) => part.sql).join(" AND ")}` : "", values };
+}
+
+/**
+ * Build the condition of a keyset query: the row sorts strictly after a position, comparing the
+ * orderings' fields in turn. Rows with null sort values never match.
+ *
+ * @param orderBy - The orderings of the query.
+ * @param after - The value of each ordering's field at the position, in the order of `orderBy`.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The SQL expression and its bind values.
+ */
+export function buildKeysetCondition<T extends ModelAttributes>(orderBy: Ordering<T>[], after: any[], naming: ColumnNaming): SqlFragment {
+  const alternatives: string[] = [];
+  const values: any[] = [];
+  orderBy.forEach(({ field, direction }, i) => {
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      parts.push(`${quoteIdentifier(naming.toColumn(orderBy[j]!.field))} = ?`);
+      values.push(after[j]);
+    }
+    parts.push(`${quoteIdentifier(naming.toColumn(field))} ${direction === "desc" ? "<" : ">"} ?`);
+    values.push(after[i]);
+    alternatives.push(`(${parts.join(" AND ")})`);
+  });
+  return { sql: alternatives.length ? `(${alternatives.join(" OR ")})` : "1 = 0", values };
+}
+
+/**
+ * Build an `ORDER BY` clause.
+ *
+ * @param orderBy - The orderings to apply.
+ * @param naming - The column naming used to map fields to columns.
+ * @returns The clause, or an empty string.
+ */
+export function buildOrderByClause<T extends ModelAttributes>(orderBy: Ordering<T>[], naming: ColumnNaming): string {
+  if (orderBy.length === 0) return "";
+  const parts = orderBy.map(({ field, direction }) => `${quoteIdentifier(naming.toColumn(field))} ${direction === "desc" ? "DESC" : "ASC"}`);
+  return `ORDER BY ${parts.join(", ")}`;
+}
+
+/**
+ * Build a `SELECT` statement for a structured query. SQLite requires a `LIMIT` before an `OFFSET`, so
+ * when only an offset is given, the dialect's `noLimit` is bound as the limit.
+ *
+ * @param table - The quoted table name.
+ * @param query - The structured query.
+ * @param naming - The column naming used to map fields to columns.
+ * @param dialect - The SQL dialect. Defaults to SQLite's.
+ * @param after - Optional. A keyset position; only rows sorting after it are selected.
+ * @returns The statement and its bind values.
+ */
+export function buildSelect<T extends ModelAttributes>(
+  table: string,
+  query: Query<T>,
+  naming: ColumnNaming,
+  dialect: SqlDialect = sqliteDialect,
+  after?: any[]
+): SqlFragment {
+  const where = buildWhereClause(query.where, naming, dialect);
+  const values = where.values.slice();
+  let whereSql = where.sql;
+  if (after) {
+    const keyset = buildKeysetCondition(query.orderBy, after, naming);
+    whereSql = whereSql ? `${whereSql} AND ${keyset.sql}` : `WHERE ${keyset.sql}`;
+    values.push(...keyset.values);
+  }
+  const parts = [`SELECT * FROM ${table}`, whereSql, buildOrderByClause(query.orderBy, naming)];
+  if (query.limit !== undefined || query.offset !== undefined) {
+    parts.push("LIMIT ?");
+    values.push(query.limit ?? dialect.noLimit);
+  }
+  if (query.offset !== undefined) {
+    parts.push("OFFSET ?");
+    values.push(query.offset);
+  }
+  return { sql: parts.filter(Boolean).join(" "), values };
+}
+
+/**
+ * Build a `SELECT COUNT(*)` statement for the conditions of a structured query.
+ *
+ * @param table - The quoted table name.
+ * @param query - The structured query; its ordering, limit and offset are ignored.
+ * @param naming - The column naming used to map fields to columns.
+ * @param dialect - The SQL dialect. Defaults to SQLite's.
+ * @returns The statement, whose single column is named `count`, and its bind values.
+ */
+export function buildCount<T extends ModelAttributes>(
+  table: string,
+  query: Query<T>,
+  naming: ColumnNaming,
+  dialect: SqlDialect = sqliteDialect
+): SqlFragment {
+  const where = buildWhereClause(query.where, naming, dialect);
+  return { sql: `SELECT COUNT(*) AS count FROM ${table} ${where.sql}`.trim(), values: where.values };
+}
+
+/**
+ * Build a `SELECT` statement for an aggregate query. Grouped columns are selected as `g0`, `g1`, ...
+ * and aggregates as `a0`, `a1`, ..., in the order of the query; `readAggregateRow` maps them back.
+ *
+ * @param table - The quoted table name.
+ * @param query - The aggregate query.
+ * @param naming - The column naming used to map fields to columns.
+ * @param dialect - The SQL dialect. Defaults to SQLite's.
+ * @returns The statement and its bind values.
+ */
+export function buildAggregate<T extends ModelAttributes>(
+  table: string,
+  query: AggregateQuery<T>,
+  naming: ColumnNaming,
+  dialect: SqlDialect = sqliteDialect
+): SqlFragment {
+  const groups = query.groupBy.map((field) => quoteIdentifier(naming.toColumn(field)));
+  const columns = [
+    ...groups.map((column, i) => `${column} AS "g${i}"`),
+    ...query.aggregates.map(({ fn, field }, i) =>
+      `${fn.toUpperCase()}(${field ? quoteIdentifier(naming.toColumn(field)) : "*"}) AS "a${i}"`
+    ),
+  ];
+  const where = buildWhereClause(query.where, naming, dialect);
+  const parts = [`SELECT ${columns.join(", ")} FROM ${table}`, where.sql];
+  if (groups.length) parts.push(`GROUP BY ${groups.join(", ")}`, `ORDER BY ${groups.join(", ")}`);
+  return { sql: parts.filter(Boolean).join(" "), values: where.values };
+}
+
+/**
+ * Convert a row selected by `buildAggregate` to a row keyed by grouped field and aggregate alias.
+ *
+ * @param row - The row returned by the database driver.
+ * @param query - The aggregate query.
+ * @returns The converted row.
+ */
+export function readAggregateRow<T extends ModelAttributes>(row: Record<string, unknown>, query: AggregateQuery<T>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  query.groupBy.forEach((field, i) => { result[field] = row[`g${i}`]; });
+  query.aggregates.forEach(({ alias }, i) => { result[alias] = row[`a${i}`]; });
+  return result;
+}
+
+/**
+ * Convert a database row to model attributes by mapping column names to field names.
+ *
+ * @param row - The row returned by the database driver.
+ * @param naming - The column naming used to map columns to fields.
+ * @returns The converted row.
+ */
+export function rowToAttributes<T>(row: Record<string, unknown>, naming: ColumnNaming): T {
+  const converted: any = {};
+  for (const column of Object.keys(row)) {
+    converted[naming.toField(column)] = row[column];
+  }
+  return converted;
+}
+
+/**
+ * Check whether a raw query string is a complete `SELECT` statement rather than a clause to be
+ * appended to the adapter's own `SELECT * FROM table`.
+ *
+ * @param query - The raw query string.
+ * @returns True if the query is a full statement.
+ */
+export function isFullStatement(query: string): boolean {
+  return /^\s*(SELECT|WITH)\b/i.test(query);
+}
+
+/**
+ * A column as declared in SQL, resolved from a `ColumnSchema` by an adapter.
+ */
+export interface ColumnDefinition {
+  name: string;
+  /** The SQL type. */
+  type: string;
+  nullable: boolean;
+  /** The default as an SQL expression. */
+  default?: string;
+  unique: boolean;
+  /** The name of the column's index, if it has one. */
+  index?: string;
+  primaryKey: boolean;
+}
+
+/**
+ * A table as reported by the database: its columns and the columns of each index.
+ */
+export interface LiveTable {
+  columns: { name: string; type: string; nullable: boolean; default: string | null; primaryKey: boolean }[];
+  indexes: { name: string; columns: string[]; unique: boolean }[];
+}
+
+/**
+ * Format a column default as an SQL expression.
+ *
+ * @param value - The default value.
+ * @returns The SQL expression.
+ */
+export function formatDefault(value: ColumnDefault): string {
+  if (value === null) return "NULL";
+  if (typeof value === "object") return value.sql;
+  if (typeof value === "string") return `'${value.replace(/'/g, "''")}'`;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return String(value);
+}
+
+/**
+ * Resolve the columns of a table schema to column definitions.
+ *
+ * @param tableName - The table name, used to name indexes.
+ * @param schema - The table schema.
+ * @param naming - The column naming used for columns without a name.
+ * @param columnType - Returns the SQL type of a column.
+ * @returns The column definitions.
+ */
+export function toColumnDefinitions(
+  tableName: string,
+  schema: TableSchema,
+  naming: ColumnNaming,
+  columnType: (column: ColumnSchema) => string
+): ColumnDefinition[] {
+  return schema.columns.map((column) => {
+    const name = column.name ?? naming.toColumn(column.field);
+    return {
+      name,
+      type: columnType(column),
+      nullable: column.nullable,
+      default: column.default === undefined ? undefined : formatDefault(column.default),
+      unique: column.unique,
+      index: column.index === true ? `${tableName}_${name}_index` : column.index || undefined,
+      primaryKey: column.primaryKey,
+    };
+  });
+}
+
+/**
+ * Build the `CREATE TABLE` statement of a table, followed by a `CREATE INDEX` statement for each
+ * indexed column.
+ *
+ * @param tableName - The table name.
+ * @param columns - The column definitions.
+ * @param primaryKey - Returns the constraint of the primary key column, e.g. `PRIMARY KEY`.
+ * @returns The statements.
+ */
+export function buildCreateTable(tableName: string, columns: ColumnDefinition[], primaryKey: (column: ColumnDefinition) => string): string[] {
+  const definitions = columns.map((column) => {
+    let sql = `${quoteIdentifier(column.name)} ${column.type}`;
+    if (column.primaryKey) {
+      sql += ` ${primaryKey(column)}`;
+    } else if (!column.nullable) {
+      sql += " NOT NULL";
+    }
+    if (column.default !== undefined) sql += ` DEFAULT ${column.default}`;
+    if (column.unique && !column.primaryKey) sql += " UNIQUE";
+    return `  ${sql}`;
+  });
+  return [`CREATE TABLE ${quoteIdentifier(tableName)} (\n${definitions.join(",\n")}\n)`, ...buildCreateIndexes(tableName, columns)];
+}
+
+/**
+ * Build a `CREATE INDEX` statement for each indexed column.
+ *
+ * @param tableName - The table name.
+ * @param columns - The column definitions.
+ * @returns The statements.
+ */
+export function buildCreateIndexes(tableName: string, columns: ColumnDefinition[]): string[] {
+  return columns
+    .filter((column) => column.index)
+    .map((column) => `CREATE INDEX ${quoteIdentifier(column.index!)} ON ${quoteIdentifier(tableName)} (${quoteIdentifier(column.name)})`);
+}
+
+/**
+ * Compare column definitions with a live table. Types are compared case-insensitively and defaults
+ * as SQL text; indexes that are not declared are ignored.
+ *
+ * @param tableName - The table name, used in messages.
+ * @param columns - The declared columns.
+ * @param live - The live table, or null if it doesn't exist.
+ * @returns The mismatches found.
+ */
+export function compareTable(tableName: string, columns: ColumnDefinition[], live: LiveTable | null): SchemaMismatch[] {
+  if (!live) {
+    return [{ kind: "missing-table", message: `Table ${tableName} does not exist` }];
+  }
+
+  const mismatches: SchemaMismatch[] = [];
+  const report = (kind: SchemaMismatchKind, column: string, expected: string, actual: string) => {
+    mismatches.push({ kind, column, expected, actual, message: `${tableName}.${column}: expected ${expected}, found ${actual}` });
+  };
+  const hasIndex = (column: string, unique: boolean) => live.indexes.some((index) =>
+    index.unique === unique && index.columns.length === 1 && index.columns[0] === column
+  );
+
+  for (const column of columns) {
+    const actual = live.columns.find((candidate) => candidate.name === column.name);
+    if (!actual) {
+      mismatches.push({ kind: "missing-column", column: column.name, message: `${tableName}.${column.name}: column does not exist` });
+      continue;
+    }
+    if (column.type.toUpperCase() !== actual.type.toUpperCase()) {
+      report("type", column.name, column.type, actual.type || "no type");
+    }
+    if (column.primaryKey !== actual.primaryKey) {
+      report("primary-key", column.name, column.primaryKey ? "primary key" : "no primary key", actual.primaryKey ? "primary key" : "no primary key");
+    }
+    if (column.primaryKey) continue;
+    if (column.nullable !== actual.nullable) {
+      report("nullable", column.name, column.nullable ? "NULL" : "NOT NULL", actual.nullable ? "NULL" : "NOT NULL");
+    }
+    if ((column.default ?? null) !== actual.default) {
+      report("default", column.name, `default ${column.default ?? "none"}`, `default ${actual.default ?? "none"}`);
+    }
+    if (column.unique !== hasIndex(column.name, true)) {
+      report("unique", column.name, column.unique ? "UNIQUE" : "not UNIQUE", column.unique ? "not UNIQUE" : "UNIQUE");
+    }
+    if (column.index && !hasIndex(column.name, false)) {
+      report("index", column.name, `index ${column.index}`, "no index");
+    }
+  }
+
+  for (const actual of live.columns) {
+    if (!columns.some((column) => column.name === actual.name)) {
+      mismatches.push({ kind: "extra-column", column: actual.name, message: `${tableName}.${actual.name}: column is not declared` });
+    }
+  }
+  return mismatches;
+}
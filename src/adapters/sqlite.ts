@@ -0,0 +1,335 @@
+import * as sqlite3 from "sqlite3";
+import { Database, open, Statement } from "sqlite";
+import { AdapterConfig, BulkInsertResult, SaveResult } from "../adapter";
+import { AggregateQuery } from "../aggregates";
+import { MigrationStore } from "../migrations";
+import { Model } from "../model";
+import { Query } from "../query";
+import { ColumnSchema, TableSchema } from "../schema";
+import { ColumnType, ModelAttributes } from "../types";
+import { PrimaryKeyStrategy } from "./keys";
+import { ConnectionLock } from "./lock";
+import { ColumnNamingOption, quoteIdentifier } from "./naming";
+import {
+  buildAggregate, buildCount, buildCreateTable, buildDelete, buildFindAll, buildInsert, buildSelect, buildUpdate,
+  compareTable, createColumnMapping, LiveTable, readAggregateRow, rowToAttributes, sqliteDialect, toColumnDefinitions,
+} from "./sql";
+
+export type SqliteDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+export type SqliteContext = {
+  db: SqliteDatabase;
+  /** Serializes use of the connection between async flows. */
+  lock: ConnectionLock;
+  /** Releases the lock. Set on the contexts of open transactions, which hold it. */
+  release?: () => void;
+}
+
+// adapters sharing a connection share a context, so transactions span all of them
+const sharedContexts = new WeakMap<SqliteDatabase, SqliteContext>();
+
+// outside transactions, statements wait for the connection's open transaction, so they don't run (and
+// get committed or rolled back) in it
+function useConnection<R>(context: SqliteContext, callback: (db: SqliteDatabase) => Promise<R>): Promise<R> {
+  return context.release ? callback(context.db) : context.lock.run(() => callback(context.db));
+}
+
+const columnTypes: Record<ColumnType, string> = {
+  text: "TEXT",
+  integer: "INTEGER",
+  real: "REAL",
+  boolean: "BOOLEAN",
+  datetime: "DATETIME",
+  json: "JSON",
+  blob: "BLOB",
+};
+
+export type SqliteAdapterOptions = {
+  /** The table that stores the model's rows. */
+  tableName: string;
+  /** The primary key field of the model. Defaults to `"id"`. */
+  primaryKeyField?: string;
+  /**
+   * The database file to open. Connections are cached per file, so adapters pointing at the same
+   * file share one connection. Defaults to `":memory:"` when no `database` is given.
+   */
+  filename?: string;
+  /** An open database, or a function returning one. Takes precedence over `filename`. */
+  database?: SqliteDatabase | (() => Promise<SqliteDatabase>);
+  /** How field names map to column names. Defaults to `"camel"` (no conversion). */
+  columnNaming?: ColumnNamingOption;
+  /** How primary keys are assigned to inserted rows. Defaults to `"uuid"`. */
+  primaryKey?: PrimaryKeyStrategy;
+}
+
+/**
+ * Create an adapter that persists a model to a SQLite table.
+ *
+ * @param options - The adapter options.
+ * @returns The adapter configuration.
+ */
+export function createSqliteAdapter<T extends ModelAttributes>(options: SqliteAdapterOptions): AdapterConfig<T> {
+  const { tableName, primaryKeyField = "id", primaryKey: primaryKeyStrategy = "uuid" } = options;
+  const { naming, setColumnNames } = createColumnMapping(options.columnNaming);
+  const table = quoteIdentifier(tableName);
+  let contextPromise: Promise<SqliteContext> | null = null;
+
+  async function connect(): Promise<SqliteContext> {
+    const { database, filename = ":memory:" } = options;
+    let db: SqliteDatabase;
+    if (typeof database === "function") {
+      db = await database();
+    } else if (database) {
+      db = database;
+    } else {
+      db = await open({ filename, driver: sqlite3.cached.Database });
+    }
+    let context = sharedContexts.get(db);
+    if (!context) {
+      context = { db, lock: new ConnectionLock() };
+      sharedContexts.set(db, context);
+    }
+    return context;
+  }
+
+  function getPrimaryKeyField() {
+    return primaryKeyField;
+  }
+
+  function getContext() {
+    if (!contextPromise) {
+      contextPromise = connect();
+      contextPromise.catch(() => { contextPromise = null; });
+    }
+    return contextPromise;
+  }
+
+  async function all(context: SqliteContext, matchOrQuery?: Partial<T> | string, bindValues?: any[]) {
+    const { sql, values } = buildFindAll(table, matchOrQuery, bindValues, naming);
+    const rows = await useConnection(context, (db) => db.all<Record<string, unknown>[]>(sql, values));
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function get(context: SqliteContext, primaryKey: any) {
+    const row = await useConnection(context, (db) => db.get<Record<string, unknown>>(
+      `SELECT * FROM ${table} WHERE ${quoteIdentifier(naming.toColumn(primaryKeyField))} = ?`,
+      [primaryKey]
+    ));
+    return row ? rowToAttributes<T>(row, naming) : null;
+  }
+
+  async function getBy(context: SqliteContext, matchOrQuery: Partial<T> | string, bindValues?: any[]) {
+    const rows = await all(context, matchOrQuery, bindValues);
+    if (rows.length > 1) throw new Error("getBy returned multiple results");
+    return rows[0] || null;
+  }
+
+  async function select(context: SqliteContext, query: Query<T>) {
+    const { sql, values } = buildSelect(table, query, naming);
+    const rows = await useConnection(context, (db) => db.all<Record<string, unknown>[]>(sql, values));
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function count(context: SqliteContext, query: Query<T>) {
+    const { sql, values } = buildCount(table, query, naming);
+    const row = await useConnection(context, (db) => db.get<{ count: number }>(sql, values));
+    return row ? Number(row.count) : 0;
+  }
+
+  async function selectAfter(context: SqliteContext, query: Query<T>, after: any[]) {
+    const { sql, values } = buildSelect(table, query, naming, sqliteDialect, after);
+    const rows = await useConnection(context, (db) => db.all<Record<string, unknown>[]>(sql, values));
+    return rows.map((row) => rowToAttributes<T>(row, naming));
+  }
+
+  async function aggregate(context: SqliteContext, query: AggregateQuery<T>) {
+    const { sql, values } = buildAggregate(table, query, naming);
+    const rows = await useConnection(context, (db) => db.all<Record<string, unknown>[]>(sql, values));
+    return rows.map((row) => readAggregateRow(row, query));
+  }
+
+  // a transaction holds the connection's lock until it commits or rolls back, on a context of its own
+  async function begin(context: SqliteContext): Promise<SqliteContext> {
+    const release = await context.lock.acquire();
+    try {
+      await context.db.run("BEGIN");
+    } catch (err) {
+      release();
+      throw err;
+    }
+    return { db: context.db, lock: context.lock, release };
+  }
+
+  async function commit(context: SqliteContext) {
+    // a failed commit leaves the transaction open, to be rolled back
+    await context.db.run("COMMIT");
+    context.release?.();
+  }
+
+  async function rollback(context: SqliteContext) {
+    try {
+      await context.db.run("ROLLBACK");
+    } finally {
+      context.release?.();
+    }
+  }
+
+  async function savepoint(context: SqliteContext, name: string) {
+    await context.db.run(`SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  async function releaseSavepoint(context: SqliteContext, name: string) {
+    await context.db.run(`RELEASE SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  async function rollbackToSavepoint(context: SqliteContext, name: string) {
+    await context.db.run(`ROLLBACK TO SAVEPOINT ${quoteIdentifier(name)}`);
+    await context.db.run(`RELEASE SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  function completeInsert(model: Model<T>, row: Record<string, unknown>, res: { lastID?: number; changes?: number }): SaveResult {
+    const primaryKey = row[primaryKeyField] !== undefined ? row[primaryKeyField] : res.lastID;
+    const success = !!res.changes;
+    if (success) {
+      model.put(primaryKeyField, primaryKey as any);
+    }
+    return { success, inserted: true, rows: res.changes || 0, primaryKey };
+  }
+
+  async function insert(context: SqliteContext, model: Model<T>, data: Partial<T>): Promise<SaveResult> {
+    const { row, sql, values } = buildInsert(table, data, primaryKeyField, primaryKeyStrategy, naming);
+    const res = await useConnection(context, (db) => db.run(sql, values));
+    return completeInsert(model, row, res);
+  }
+
+  async function insertMany(context: SqliteContext, models: Model<T>[], data: Partial<T>[]): Promise<BulkInsertResult> {
+    // rows with the same fields share a prepared statement
+    const statements = new Map<string, Statement<sqlite3.Statement>>();
+    const result: BulkInsertResult = { rows: 0, primaryKeys: [] };
+    await useConnection(context, async (db) => {
+      try {
+        for (let i = 0; i < models.length; i++) {
+          const { row, sql, values } = buildInsert(table, data[i] ?? {}, primaryKeyField, primaryKeyStrategy, naming);
+          let statement = statements.get(sql);
+          if (!statement) {
+            statement = await db.prepare(sql);
+            statements.set(sql, statement);
+          }
+          const { rows, primaryKey } = completeInsert(models[i]!, row, await statement.run(values));
+          result.rows += rows;
+          result.primaryKeys.push(primaryKey);
+        }
+      } finally {
+        for (const statement of Array.from(statements.values())) {
+          await statement.finalize();
+        }
+      }
+    });
+    return result;
+  }
+
+  async function update(context: SqliteContext, model: Model<T>, data: Partial<T>, conditions?: Partial<T>): Promise<SaveResult> {
+    const primaryKey = model.get(primaryKeyField);
+    const statement = buildUpdate(table, data, { [primaryKeyField]: primaryKey, ...conditions }, primaryKeyField, naming);
+    if (!statement) {
+      return { success: false, inserted: false, rows: 0, primaryKey };
+    }
+    const res = await useConnection(context, (db) => db.run(statement.sql, statement.values));
+    return { success: !!(res.changes && res.changes > 0), inserted: false, rows: res.changes || 0, primaryKey };
+  }
+
+  async function del(context: SqliteContext, model: Model<T>, conditions?: Partial<T>) {
+    const { sql, values } = buildDelete(table, { [primaryKeyField]: model.get(primaryKeyField), ...conditions }, naming);
+    const res = await useConnection(context, (db) => db.run(sql, values));
+    return !!(res.changes && res.changes > 0);
+  }
+
+  async function updateAll(context: SqliteContext, match: Partial<T>, data: Partial<T>) {
+    const statement = buildUpdate(table, data, match, primaryKeyField, naming);
+    if (!statement) return 0;
+    const res = await useConnection(context, (db) => db.run(statement.sql, statement.values));
+    return res.changes || 0;
+  }
+
+  async function deleteAll(context: SqliteContext, match: Partial<T>) {
+    const { sql, values } = buildDelete(table, match, naming);
+    const res = await useConnection(context, (db) => db.run(sql, values));
+    return res.changes || 0;
+  }
+
+  function columnType(column: ColumnSchema) {
+    if (column.type) return columnTypes[column.type];
+    return column.primaryKey && primaryKeyStrategy === "autoincrement" ? "INTEGER" : "TEXT";
+  }
+
+  function createTableSql(schema: TableSchema) {
+    const columns = toColumnDefinitions(tableName, schema, naming, columnType);
+    // AUTOINCREMENT is only allowed on an INTEGER PRIMARY KEY
+    return buildCreateTable(tableName, columns, (column) =>
+      primaryKeyStrategy === "autoincrement" && column.type === "INTEGER" ? "PRIMARY KEY AUTOINCREMENT" : "PRIMARY KEY NOT NULL"
+    );
+  }
+
+  async function checkTable(context: SqliteContext, schema: TableSchema) {
+    const columns = toColumnDefinitions(tableName, schema, naming, columnType);
+    const live = await useConnection(context, (db) => readTable(db));
+    return compareTable(tableName, columns, live);
+  }
+
+  async function readTable(db: SqliteDatabase): Promise<LiveTable | null> {
+    const info = await db.all<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }[]>(
+      `PRAGMA table_info(${table})`
+    );
+    if (info.length === 0) return null;
+
+    const live: LiveTable = {
+      columns: info.map((column) => ({
+        name: column.name,
+        type: column.type,
+        nullable: !column.notnull,
+        default: column.dflt_value,
+        primaryKey: column.pk > 0,
+      })),
+      indexes: [],
+    };
+    const indexes = await db.all<{ name: string; unique: number }[]>(`PRAGMA index_list(${table})`);
+    for (const index of indexes) {
+      const indexColumns = await db.all<{ name: string }[]>(`PRAGMA index_info(${quoteIdentifier(index.name)})`);
+      live.indexes.push({ name: index.name, unique: !!index.unique, columns: indexColumns.map((column) => column.name) });
+    }
+    return live;
+  }
+
+  return {
+    getPrimaryKeyField, getContext, all, get, getBy, insert, update, del, select, count, selectAfter, aggregate,
+    insertMany, updateAll, deleteAll,
+    begin, commit, rollback, savepoint, releaseSavepoint, rollbackToSavepoint,
+    setColumnNames, createTableSql, checkTable,
+  };
+}
+
+/**
+ * Create a migration store that records applied migrations in a table of a SQLite database. Use it
+ * with a `Migrator` whose adapter is a SQLite adapter on the same database.
+ *
+ * @param options - The name of the migrations table. Defaults to `"schema_migrations"`.
+ * @returns The migration store.
+ */
+export function createSqliteMigrationStore(options: { tableName?: string } = {}): MigrationStore {
+  const table = quoteIdentifier(options.tableName ?? "schema_migrations");
+  return {
+    async prepare(context: SqliteContext) {
+      await useConnection(context, (db) => db.run(`CREATE TABLE IF NOT EXISTS ${table} ("name" TEXT PRIMARY KEY, "applied_at" TEXT NOT NULL)`));
+    },
+    async applied(context: SqliteContext) {
+      const rows = await useConnection(context, (db) => db.all<{ name: string; applied_at: string }[]>(`SELECT "name", "applied_at" FROM ${table} ORDER BY "name"`));
+      return rows.map((row) => ({ name: row.name, appliedAt: new Date(row.applied_at) }));
+    },
+    async record(context: SqliteContext, name: string, appliedAt: Date) {
+      await useConnection(context, (db) => db.run(`INSERT INTO ${table} ("name", "applied_at") VALUES (?, ?)`, [name, appliedAt.toISOString()]));
+    },
+    async forget(context: SqliteContext, name: string) {
+      await useConnection(context, (db) => db.run(`DELETE FROM ${table} WHERE "name" = ?`, [name]));
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { Model } from "./model";
+import { Condition, matchesCondition, sortRows, toConditions } from "./query";
+import { excludeDeleted, getSoftDeleteField } from "./soft-delete";
+import { getContext } from "./transaction";
+import { ModelAttributes, PersistenceInfo } from "./types";
+
+/**
+ * The aggregate functions. `count` counts rows; the others ignore null values, as in SQL.
+ */
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+/**
+ * The fields of `T` whose values are numbers.
+ */
+export type NumericField<T> = { [K in keyof T]-?: NonNullable<T[K]> extends number ? K : never }[keyof T] & string;
+
+/**
+ * An aggregate to compute per group: `"count"`, or a function and the numeric field to apply it to.
+ */
+export type AggregateSpec<T> = "count" | [Exclude<AggregateFunction, "count">, NumericField<T>];
+
+/**
+ * Aggregates to compute per group, keyed by the name of their result.
+ */
+export type AggregateSpecs<T> = Record<string, AggregateSpec<T>>;
+
+/**
+ * The results of aggregates. Counts are numbers; the other functions are null for groups without
+ * non-null values.
+ */
+export type AggregateValues<A> = { [P in keyof A]: A[P] extends "count" ? number : number | null };
+
+/**
+ * A group of `groupBy`: the grouped fields' values and the group's aggregates.
+ */
+export type GroupBucket<T, K extends keyof T, A> = Pick<T, K> & AggregateValues<A>;
+
+/**
+ * A single aggregate of an aggregate query.
+ */
+export interface Aggregate<T extends ModelAttributes> {
+  /** The key of the aggregate's value in the result rows. */
+  alias: string;
+  fn: AggregateFunction;
+  /** The field to aggregate. Unset for `count`. */
+  field?: keyof T & string;
+}
+
+/**
+ * An aggregate query passed to adapters. Rows matching every condition are grouped by the values of
+ * the `groupBy` fields (all rows form one group if there are none), and each aggregate is computed
+ * per group.
+ */
+export interface AggregateQuery<T extends ModelAttributes> {
+  where: Condition<T>[];
+  groupBy: (keyof T & string)[];
+  aggregates: Aggregate<T>[];
+}
+
+function computeAggregate<T extends ModelAttributes>(rows: T[], aggregate: Aggregate<T>): unknown {
+  if (aggregate.fn === "count") return rows.length;
+  const values = rows
+    .map((row) => row[aggregate.field!])
+    .filter((value) => value !== null && value !== undefined)
+    .map(Number);
+  if (values.length === 0) return null;
+  switch (aggregate.fn) {
+    case "sum": return values.reduce((total, value) => total + value, 0);
+    case "avg": return values.reduce((total, value) => total + value, 0) / values.length;
+    case "min": return Math.min(...values);
+    case "max": return Math.max(...values);
+  }
+  return null;
+}
+
+/**
+ * Evaluate an aggregate query against rows in memory.
+ *
+ * @param rows - The rows to aggregate.
+ * @param query - The aggregate query.
+ * @returns A row per group, sorted by the grouped fields, with a key for each grouped field and each
+ * aggregate's alias.
+ */
+export function applyAggregate<T extends ModelAttributes>(rows: T[], query: AggregateQuery<T>): Record<string, unknown>[] {
+  const matching = rows.filter((row) => query.where.every((condition) => matchesCondition(row, condition)));
+  const groups = new Map<string, T[]>();
+  if (query.groupBy.length === 0) groups.set("", matching);
+  for (const row of query.groupBy.length ? matching : []) {
+    const key = JSON.stringify(query.groupBy.map((field) => row[field] ?? null));
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  const results: Record<string, unknown>[] = [];
+  groups.forEach((group) => {
+    const result: Record<string, unknown> = {};
+    for (const field of query.groupBy) result[field] = group[0]![field] ?? null;
+    for (const aggregate of query.aggregates) result[aggregate.alias] = computeAggregate(group, aggregate);
+    results.push(result);
+  });
+  return sortRows<Record<string, unknown>>(results, query.groupBy.map((field) => ({ field, direction: "asc" })));
+}
+
+/**
+ * Run an aggregate query for a model class through its adapter, or in memory if the adapter can't
+ * aggregate. Soft-deleted models are excluded unless the match object includes the soft delete field.
+ * Grouped values are decoded with their fields' encoders, and aggregates are converted to numbers.
+ *
+ * @param modelClass - The model class.
+ * @param match - The match object rows must match.
+ * @param groupBy - The fields to group by.
+ * @param specs - The aggregates to compute, keyed by the name of their result.
+ * @returns A promise that resolves to a result per group, sorted by the grouped fields.
+ */
+export async function runAggregates<T extends ModelAttributes>(
+  modelClass: new (...args: any[]) => Model<T>,
+  match: Partial<T> | undefined,
+  groupBy: (keyof T & string)[],
+  specs: AggregateSpecs<T>
+): Promise<Record<string, unknown>[]> {
+  const { adapter, fieldSpecs, globalSpec } = (modelClass as unknown as typeof Model).getPersistence() as PersistenceInfo<Model<T>>;
+  const softDeleteField = getSoftDeleteField(globalSpec);
+  const query: AggregateQuery<T> = {
+    where: toConditions(softDeleteField ? excludeDeleted(match, softDeleteField) : match ?? {}),
+    groupBy,
+    aggregates: Object.keys(specs).map((alias) => {
+      const spec = specs[alias]!;
+      return spec === "count" ? { alias, fn: "count" } : { alias, fn: spec[0], field: spec[1] };
+    }),
+  };
+
+  const context = await getContext(adapter);
+  const rows = adapter.aggregate
+    ? await adapter.aggregate(context, query)
+    : applyAggregate(await adapter.all(context), query);
+  return rows.map((row) => {
+    const result: Record<string, unknown> = {};
+    for (const field of groupBy) {
+      const encoder = fieldSpecs?.[field]?.encoder;
+      const value = row[field] ?? null;
+      result[field] = encoder && value !== null ? encoder.decode(value) : value;
+    }
+    for (const { alias, fn } of query.aggregates) {
+      const value = row[alias];
+      // drivers return large integers and decimals as strings
+      result[alias] = fn === "count" ? Number(value ?? 0) : value === null || value === undefined ? null : Number(value);
+    }
+    return result;
+  });
+}
+
+/**
+ * Run a single aggregate for a model class over every row matching a match object.
+ *
+ * @param modelClass - The model class.
+ * @param match - The match object rows must match.
+ * @param spec - The aggregate to compute.
+ * @returns A promise that resolves to the aggregate's value.
+ */
+export async function runAggregate<T extends ModelAttributes>(
+  modelClass: new (...args: any[]) => Model<T>,
+  match: Partial<T> | undefined,
+  spec: AggregateSpec<T>
+): Promise<number | null> {
+  const [result] = await runAggregates(modelClass, match, [], { value: spec });
+  return (result?.value ?? null) as number | null;
+}
@@ -0,0 +1,242 @@
+import { AdapterConfig } from "./adapter";
+import { Model } from "./model";
+import { Persistence } from "./persistence";
+import {
+  AuditOptions, ChangeType, DeleteType, FieldSpecs, ModelAttributes, ModelChanges, ModelClass, ModelType,
+  PersistenceInfo, ValueEncoder,
+} from "./types";
+
+/**
+ * A row of the history store. `changes` holds `[from, to]` pairs of the model's encoded values, as
+ * its adapter stores them.
+ */
+export type AuditEntryAttrs = {
+  id?: any;
+  modelName: string;
+  primaryKey: string;
+  operation: ChangeType;
+  deleteType: DeleteType | null;
+  changes: Record<string, [unknown, unknown]>;
+  actor: unknown;
+  recordedAt: Date;
+}
+
+export type AuditConfig = {
+  /**
+   * The adapter of the history store. Its table needs the columns of `AuditEntryAttrs`; `changes` and
+   * `actor` are stored as JSON and `recordedAt` as an ISO 8601 string.
+   */
+  adapter: AdapterConfig<any>;
+  /** Returns who is making the current change, e.g. the user of the current request. */
+  actor?: () => unknown | Promise<unknown>;
+  /** Returns the current time. Defaults to `() => new Date()`. */
+  clock?: () => Date;
+}
+
+/**
+ * A recorded change of a model, with decoded values.
+ */
+export interface AuditRecord<T extends ModelAttributes> {
+  operation: ChangeType;
+  /** Whether a delete was soft or hard. Null for inserts and updates. */
+  deleteType: DeleteType | null;
+  /** The changed fields as `[from, to]` pairs. A hard delete changes every field to null. */
+  changes: ModelChanges<T>;
+  actor: unknown;
+  recordedAt: Date;
+}
+
+type AuditEntryClass = typeof Model & (new (data: AuditEntryAttrs, persisted?: boolean) => Model<AuditEntryAttrs>);
+
+const jsonEncoder: ValueEncoder<any, string> = {
+  encode: (value) => JSON.stringify(value ?? null),
+  decode: (value) => JSON.parse(value),
+};
+
+const dateEncoder: ValueEncoder<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (value) => new Date(value),
+};
+
+let current: { config: AuditConfig; entryClass: AuditEntryClass } | null = null;
+
+/**
+ * Get the resolved audit options of a model class.
+ *
+ * @param modelClass - The model class.
+ * @returns The options, or undefined if the class is not audited.
+ */
+export function getAuditOptions(modelClass: ModelClass<Model<any>>): AuditOptions<any> | undefined {
+  const option = (modelClass as unknown as typeof Model).getPersistence().globalSpec?.audit;
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+function getAuditName(modelClass: ModelClass<Model<any>>): string {
+  return getAuditOptions(modelClass)?.name ?? modelClass.name;
+}
+
+function encodeValue(value: unknown, fieldSpecs: FieldSpecs<any>, field: string): unknown {
+  const encoder = fieldSpecs[field]?.encoder;
+  return encoder && value !== null && value !== undefined ? encoder.encode(value) : value ?? null;
+}
+
+function decodeValue(value: unknown, fieldSpecs: FieldSpecs<any>, field: string): unknown {
+  const encoder = fieldSpecs[field]?.encoder;
+  return encoder && value !== null ? encoder.decode(value) : value;
+}
+
+/**
+ * Record an insert, update or delete of a model in the history store, if auditing is enabled and the
+ * model's class has the `audit` option. Models call it when they are written, before emitting their
+ * event on `modelEvents`, so listeners removed from the bus don't affect auditing.
+ *
+ * @param model - The model that was written.
+ * @param type - The operation.
+ * @param changes - The written fields as `[from, to]` pairs.
+ * @param deleteType - Whether a delete was soft or hard.
+ */
+export async function recordChange(
+  model: Model<any>,
+  type: ChangeType,
+  changes: ModelChanges<any>,
+  deleteType?: DeleteType
+): Promise<void> {
+  if (!current) return;
+  const modelClass = model.constructor as ModelClass<Model<any>>;
+  const options = getAuditOptions(modelClass);
+  if (!options) return;
+
+  const { adapter, fieldSpecs = {} } = (modelClass as unknown as typeof Model).getPersistence() as PersistenceInfo<Model<any>>;
+  const primaryKeyField = adapter.getPrimaryKeyField();
+  const primaryKey = model.get(primaryKeyField);
+
+  if (type === "insert") {
+    changes = { [primaryKeyField]: [null, primaryKey], ...changes };
+  } else if (deleteType === "hard") {
+    const attributes = model.getAttributes();
+    changes = {};
+    for (const field of Object.keys(attributes)) changes[field] = [attributes[field], null];
+  }
+
+  const encoded: Record<string, [unknown, unknown]> = {};
+  for (const field of Object.keys(changes)) {
+    if ((options.exclude ?? []).indexOf(field) !== -1 || fieldSpecs[field]?.persist === false) continue;
+    const [from, to] = changes[field]!;
+    encoded[field] = [encodeValue(from, fieldSpecs, field), encodeValue(to, fieldSpecs, field)];
+  }
+  if (type === "update" && Object.keys(encoded).length === 0) return;
+
+  const { config, entryClass } = current;
+  await new entryClass({
+    modelName: getAuditName(modelClass),
+    primaryKey: String(primaryKey),
+    operation: type,
+    deleteType: deleteType ?? null,
+    changes: encoded,
+    actor: config.actor ? await config.actor() : null,
+    recordedAt: (config.clock ?? (() => new Date()))(),
+  }).save();
+}
+
+/**
+ * Start recording the inserts, updates and deletes of models whose class has the `audit` option.
+ * Changes are recorded when models are written, in the transaction of the change if there is one.
+ * Models inserted with `insertMany` are recorded one by one, while `updateAll` and `deleteAll` are not
+ * recorded. Calling it again replaces the previous configuration.
+ *
+ * @param config - The history store adapter, the actor provider and the clock.
+ * @returns A function that stops recording.
+ */
+export function enableAudit(config: AuditConfig): () => void {
+  disableAudit();
+
+  class AuditEntry extends Model<AuditEntryAttrs> {}
+  Persistence<AuditEntryAttrs>(config.adapter, {
+    changes: { encoder: jsonEncoder },
+    actor: { encoder: jsonEncoder },
+    recordedAt: { encoder: dateEncoder },
+  })(AuditEntry);
+
+  const state = { config, entryClass: AuditEntry as AuditEntryClass };
+  current = state;
+  return () => {
+    if (current === state) disableAudit();
+  };
+}
+
+/**
+ * Stop recording changes.
+ */
+export function disableAudit() {
+  current = null;
+}
+
+/**
+ * The recorded changes of one model, oldest first.
+ */
+export class ModelHistory<M extends Model<any>> {
+  constructor(
+    protected readonly modelClass: ModelClass<M>,
+    public readonly records: AuditRecord<ModelType<M>>[]
+  ) {}
+
+  /**
+   * Reconstruct the model as it was at a given time by replaying its changes.
+   *
+   * @param time - The time to reconstruct the model at.
+   * @returns The model, or null if it didn't exist yet or was deleted at that time.
+   */
+  public asOf(time: Date): M | null {
+    let data: Record<string, unknown> | null = null;
+    for (const record of this.records) {
+      if (record.recordedAt.getTime() > time.getTime()) break;
+      if (record.deleteType === "hard") {
+        data = null;
+        continue;
+      }
+      const next: Record<string, unknown> = { ...(data ?? {}) };
+      for (const field of Object.keys(record.changes)) {
+        next[field] = (record.changes as Record<string, [unknown, unknown]>)[field]![1];
+      }
+      data = next;
+    }
+    return data ? new this.modelClass(data, true) : null;
+  }
+}
+
+/**
+ * Load the recorded changes of a model. Works for deleted models too.
+ *
+ * @param modelClass - The model class.
+ * @param primaryKey - The primary key of the model.
+ * @returns A promise that resolves to the model's history.
+ */
+export async function getHistory<M extends Model<any>>(modelClass: ModelClass<M>, primaryKey: unknown): Promise<ModelHistory<M>> {
+  if (!current) throw new Error("Auditing is not enabled; call enableAudit first");
+  const { fieldSpecs = {} } = (modelClass as unknown as typeof Model).getPersistence() as PersistenceInfo<Model<any>>;
+
+  const entries = await current.entryClass.all<AuditEntryAttrs, Model<AuditEntryAttrs>>({
+    modelName: getAuditName(modelClass),
+    primaryKey: String(primaryKey),
+  });
+  const records = entries
+    .map((entry) => {
+      const changes: Record<string, [unknown, unknown]> = {};
+      const stored = entry.get("changes");
+      for (const field of Object.keys(stored)) {
+        const [from, to] = stored[field]!;
+        changes[field] = [decodeValue(from, fieldSpecs, field), decodeValue(to, fieldSpecs, field)];
+      }
+      return {
+        operation: entry.get("operation"),
+        deleteType: entry.get("deleteType") ?? null,
+        changes: changes as ModelChanges<ModelType<M>>,
+        actor: entry.get("actor"),
+        recordedAt: entry.get("recordedAt"),
+      };
+    })
+    // Array.prototype.sort is stable, so records with the same time keep the order they were stored in
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  return new ModelHistory(modelClass, records);
+}
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runCli } from "./cli";
+
+runCli(process.argv.slice(2)).then((code) => process.exit(code));
@@ -0,0 +1,175 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { AdapterConfig } from "./adapter";
+import { createMigrationFile, importFile, loadMigrations, MigrationStore, Migrator } from "./migrations";
+
+/**
+ * The configuration the CLI loads from its config file, which exports it (or a function returning it)
+ * as its default export.
+ */
+export interface CliConfig {
+  /** The directory holding the migration files, relative to the working directory. Defaults to `"migrations"`. */
+  migrationsDirectory?: string;
+  /**
+   * The extension of files created with `migrate create`: `"mjs"` (default), `"js"` or `"ts"`. `.ts`
+   * files need the CLI to run under a TypeScript loader.
+   */
+  migrationExtension?: "mjs" | "js" | "ts";
+  /** The adapter whose context migrations run in. */
+  adapter: AdapterConfig<any>;
+  /** Where applied migrations are recorded. */
+  store: MigrationStore;
+}
+
+/**
+ * Where the CLI runs and writes its output.
+ */
+export interface CliIO {
+  cwd: string;
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+const configFiles = [
+  "tiny-activerecord.config.js",
+  "tiny-activerecord.config.mjs",
+  "tiny-activerecord.config.cjs",
+  "tiny-activerecord.config.ts",
+];
+
+const usage = `Usage: ts-tiny-activerecord migrate <command> [options]
+
+Commands:
+  up [--to <name>]        Apply pending migrations, optionally up to and including <name>
+  down [--steps <n>]      Revert the last <n> applied migrations (default 1)
+  status                  List migrations and whether they are applied
+  create <description>    Create an empty migration file
+
+Options:
+  --config <file>         The config file (default: ${configFiles[0]} or another
+                          tiny-activerecord.config.* file in the working directory)
+  --dir <directory>       The migrations directory, overriding the config`;
+
+type ParsedArgs = {
+  positional: string[];
+  flags: Record<string, string>;
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg.startsWith("--")) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith("--")) throw new Error(`Missing value for ${arg}`);
+      parsed.flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadConfig(cwd: string, configFile?: string): Promise<Partial<CliConfig> | undefined> {
+  let file: string | undefined;
+  if (configFile) {
+    file = path.resolve(cwd, configFile);
+    if (!await exists(file)) throw new Error(`Config file not found: ${configFile}`);
+  } else {
+    for (const candidate of configFiles) {
+      if (await exists(path.join(cwd, candidate))) {
+        file = path.join(cwd, candidate);
+        break;
+      }
+    }
+  }
+  if (!file) return undefined;
+
+  const module = await importFile(file);
+  const exported = module.default ?? module;
+  return typeof exported === "function" ? await exported() : exported;
+}
+
+function padEnd(value: string, length: number): string {
+  return value.length >= length ? value : value + " ".repeat(length - value.length);
+}
+
+/**
+ * Run the command line interface.
+ *
+ * @param args - The command line arguments, without the node and script paths.
+ * @param io - The working directory and output functions. Defaults to the process's.
+ * @returns A promise that resolves to the exit code.
+ */
+export async function runCli(args: string[], io: CliIO = { cwd: process.cwd(), log: console.log, error: console.error }): Promise<number> {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs(args);
+  } catch (err) {
+    io.error(`${(err as Error).message}\n\n${usage}`);
+    return 1;
+  }
+
+  const [group, command, ...rest] = parsed.positional;
+  if (group !== "migrate" || !command) {
+    io.error(usage);
+    return 1;
+  }
+
+  try {
+    const config = await loadConfig(io.cwd, parsed.flags.config);
+    const directory = path.resolve(io.cwd, parsed.flags.dir ?? config?.migrationsDirectory ?? "migrations");
+
+    if (command === "create") {
+      const file = await createMigrationFile(directory, rest.join(" "), { extension: config?.migrationExtension });
+      io.log(`Created ${path.relative(io.cwd, file)}`);
+      return 0;
+    }
+
+    if (!config?.adapter || !config.store) {
+      throw new Error(`No config with an adapter and a store found; create ${configFiles[0]} or pass --config`);
+    }
+    const migrator = new Migrator({ adapter: config.adapter, store: config.store, migrations: () => loadMigrations(directory) });
+
+    switch (command) {
+      case "up": {
+        const applied = await migrator.up({ to: parsed.flags.to });
+        if (applied.length === 0) io.log("No pending migrations");
+        for (const name of applied) io.log(`Applied ${name}`);
+        return 0;
+      }
+      case "down": {
+        const steps = parsed.flags.steps === undefined ? 1 : Number(parsed.flags.steps);
+        if (!(steps >= 1) || Math.floor(steps) !== steps) throw new Error("--steps must be a positive integer");
+        const reverted = await migrator.down({ steps });
+        if (reverted.length === 0) io.log("No migrations to revert");
+        for (const name of reverted) io.log(`Reverted ${name}`);
+        return 0;
+      }
+      case "status": {
+        const statuses = await migrator.status();
+        if (statuses.length === 0) io.log("No migrations");
+        for (const { name, state, appliedAt } of statuses) {
+          io.log(`${padEnd(state, 8)} ${name}${appliedAt ? `  ${appliedAt.toISOString()}` : ""}`);
+        }
+        return 0;
+      }
+      default:
+        io.error(`Unknown command: ${command}\n\n${usage}`);
+        return 1;
+    }
+  } catch (err) {
+    io.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Compare two field values for change tracking. Dates are equal if they hold the same time, and
+ * arrays and plain objects, such as the values of JSON fields, are compared deeply. Other objects are
+ * only equal to themselves.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns True if the values are equal.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b || (a !== a && b !== b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length &&
+      a.every((value, i) => valuesEqual(value, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && valuesEqual(a[key], b[key]));
+}
+
+/**
+ * Copy a field value for change tracking, so changes made in place to the value, such as pushing to
+ * the array of a JSON field, don't change the copy. Dates, arrays and plain objects are copied deeply,
+ * and other values are returned as they are.
+ *
+ * @param value - The value to copy.
+ * @returns The copy.
+ */
+export function cloneValue<V>(value: V): V {
+  if (typeof value !== "object" || value === null) return value;
+  if (value instanceof Date) return new Date(value.getTime()) as V;
+  if (Array.isArray(value)) return value.map((item) => cloneValue(item)) as V;
+  if (!isPlainObject(value)) return value;
+
+  const copy: Record<string, unknown> = Object.create(Object.getPrototypeOf(value));
+  for (const key of Object.keys(value)) {
+    copy[key] = cloneValue(value[key]);
+  }
+  return copy as V;
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
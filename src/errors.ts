@@ -0,0 +1,73 @@
+import { ModelEvent } from "./events";
+import { Model } from "./model";
+
+/**
+ * Validation errors keyed by field name. Errors that don't belong to a single field are keyed by
+ * `"base"`.
+ */
+export type ValidationErrors = Record<string, string[]>;
+
+/**
+ * Thrown by `Model.save()` when the model fails validation. The adapter is not called.
+ */
+export class ValidationError extends Error {
+  constructor(public readonly errors: ValidationErrors) {
+    super(`Validation failed: ${describeErrors(errors)}`);
+    this.name = "ValidationError";
+  }
+}
+
+function describeErrors(errors: ValidationErrors): string {
+  const messages: string[] = [];
+  for (const field of Object.keys(errors)) {
+    for (const message of errors[field]!) {
+      messages.push(field === "base" ? message : `${field} ${message}`);
+    }
+  }
+  return messages.join(", ");
+}
+
+/**
+ * Thrown by `Model.save()` and `Model.del()` for models with optimistic locking when the stored row no
+ * longer has the version the model was loaded with, because it was changed or deleted since.
+ */
+export class StaleModelError extends Error {
+  constructor(public readonly model: Model<any>) {
+    super(`Stale ${model.constructor.name}: the row was changed or deleted since it was loaded`);
+    this.name = "StaleModelError";
+  }
+}
+
+
+/**
+ * Thrown by `Model.reload()` when the model's row no longer exists.
+ */
+export class ModelNotFoundError extends Error {
+  constructor(public readonly model: Model<any>, public readonly primaryKey: unknown) {
+    super(`${model.constructor.name} ${String(primaryKey)} not found`);
+    this.name = "ModelNotFoundError";
+  }
+}
+
+/**
+ * Thrown by `ModelEventBus.emit()` when listeners of an event throw. Every listener still ran; the
+ * errors are in subscription order.
+ */
+export class ModelEventError extends Error {
+  constructor(public readonly event: ModelEvent, public readonly errors: unknown[]) {
+    const first = errors[0] instanceof Error ? errors[0].message : String(errors[0]);
+    super(`${errors.length} listener(s) failed on ${event.type} of ${event.model.constructor.name}: ${first}`);
+    this.name = "ModelEventError";
+  }
+}
+
+/**
+ * Thrown by `paginate()` when a cursor is malformed or was created for a query with different
+ * orderings.
+ */
+export class InvalidCursorError extends Error {
+  constructor(public readonly cursor: string, reason: string) {
+    super(`Invalid cursor: ${reason}`);
+    this.name = "InvalidCursorError";
+  }
+}
\ No newline at end of file
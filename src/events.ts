@@ -0,0 +1,127 @@
+import { ModelEventError } from "./errors";
+import { Model } from "./model";
+import { DeleteType, ModelChanges, ModelClass, ModelType } from "./types";
+
+/**
+ * The operations model events are emitted for.
+ */
+export type ModelEventType = "insert" | "update" | "delete" | "load";
+
+/**
+ * An event emitted after a model was inserted, updated, deleted or loaded.
+ */
+export interface ModelEvent<M extends Model<any> = Model<any>> {
+  type: ModelEventType;
+  model: M;
+  modelClass: ModelClass<M>;
+  /** Whether a delete was soft or hard. Only set on `"delete"` events. */
+  deleteType?: DeleteType;
+  /** The fields that were written: every saved field on insert and update, the deletion time on soft delete. */
+  changedFields: (keyof ModelType<M>)[];
+  /** The written fields as `[from, to]` pairs. */
+  changes: ModelChanges<ModelType<M>>;
+  /** The context the model was written or loaded with. */
+  context: any;
+}
+
+export type ModelEventListener<M extends Model<any> = Model<any>> = (event: ModelEvent<M>) => void | Promise<void>;
+
+type Subscription = {
+  modelClass?: Function;
+  type: ModelEventType | "*";
+  listener: ModelEventListener<any>;
+}
+
+/**
+ * Delivers model events to listeners subscribed to a model class or to every model. Listeners run one
+ * after another in subscription order and async listeners are awaited, so the save, delete or load
+ * that emitted an event only completes once its listeners have. If listeners throw, the remaining ones
+ * still run and a `ModelEventError` with every error is thrown afterwards.
+ */
+export class ModelEventBus {
+  protected subscriptions: Subscription[] = [];
+
+  /**
+   * Subscribe to events of every model, or of the models of a class and its subclasses.
+   *
+   * @param modelClass - The model class to listen to. Omit it to listen to every model.
+   * @param type - The event type, or `"*"` for every type.
+   * @param listener - The listener.
+   * @returns A function that unsubscribes the listener.
+   */
+  public on<M extends Model<any>>(
+    modelClass: ModelClass<M>,
+    type: ModelEventType | "*",
+    listener: ModelEventListener<M>
+  ): () => void;
+  public on(type: ModelEventType | "*", listener: ModelEventListener): () => void;
+  public on(...args: any[]): () => void {
+    const subscription: Subscription = typeof args[0] === "function"
+      ? { modelClass: args[0], type: args[1], listener: args[2] }
+      : { type: args[0], listener: args[1] };
+    this.subscriptions.push(subscription);
+    return () => {
+      const index = this.subscriptions.indexOf(subscription);
+      if (index !== -1) this.subscriptions.splice(index, 1);
+    };
+  }
+
+  /**
+   * Remove every subscription.
+   */
+  public clear() {
+    this.subscriptions = [];
+  }
+
+  /**
+   * Deliver an event to the listeners subscribed to it.
+   *
+   * @param event - The event.
+   */
+  public async emit(event: ModelEvent): Promise<void> {
+    const errors: unknown[] = [];
+    // listeners (un)subscribing while the event is delivered only affect later events
+    for (const { modelClass, type, listener } of this.subscriptions.slice()) {
+      if (type !== "*" && type !== event.type) continue;
+      if (modelClass && !(event.model instanceof modelClass)) continue;
+      try {
+        await listener(event);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    if (errors.length > 0) throw new ModelEventError(event, errors);
+  }
+}
+
+/**
+ * The event bus models emit their events on.
+ */
+export const modelEvents = new ModelEventBus();
+
+/**
+ * Emit an event for a model on `modelEvents`.
+ *
+ * @param model - The model the event happened to.
+ * @param type - The event type.
+ * @param context - The context the model was written or loaded with.
+ * @param changes - The written fields as `[from, to]` pairs.
+ * @param deleteType - Whether a delete was soft or hard.
+ */
+export async function emitModelEvent(
+  model: Model<any>,
+  type: ModelEventType,
+  context: any,
+  changes: ModelChanges<any> = {},
+  deleteType?: DeleteType
+): Promise<void> {
+  await modelEvents.emit({
+    type,
+    model,
+    modelClass: model.constructor as ModelClass<Model<any>>,
+    deleteType,
+    changedFields: Object.keys(changes),
+    changes,
+    context,
+  });
+}
@@ -0,0 +1,56 @@
+import { Model } from "./model";
+import { currentTransaction } from "./transaction";
+import { ChangeType, ModelHooks, PersistenceInfo } from "./types";
+
+/**
+ * The hook events that run during a save, delete or load, as opposed to `afterCommit`.
+ */
+export type HookEvent = Exclude<keyof ModelHooks<any>, "afterCommit">;
+
+function getHooks(model: Model<any>, event: keyof ModelHooks<any>): Function[] {
+  const { globalSpec } = (model.constructor as any).getPersistence() as PersistenceInfo<Model<any>>;
+  const hooks = globalSpec?.[event];
+  if (!hooks) return [];
+  return Array.isArray(hooks) ? hooks : [hooks];
+}
+
+/**
+ * Run the hooks of an event on a model: the model's method of the same name, then the hooks of its
+ * global spec in order. Stops at the first hook that returns false.
+ *
+ * @param model - The model the event happened to.
+ * @param event - The event.
+ * @param context - The context the model is read or written with.
+ * @param args - The arguments passed to the hooks after the model, such as the save type.
+ * @returns A promise that resolves to false if a hook returned false, and true otherwise.
+ */
+export async function runHooks(model: Model<any>, event: HookEvent, context: any, ...args: unknown[]): Promise<boolean> {
+  if (await (model as any)[event](context, ...args) === false) return false;
+  for (const hook of getHooks(model, event)) {
+    if (await hook(context, model, ...args) === false) return false;
+  }
+  return true;
+}
+
+/**
+ * Run the `afterCommit` hooks of a model once the current transaction commits, or right away outside
+ * transactions.
+ *
+ * @param model - The model that was saved or deleted.
+ * @param type - Whether the model was inserted, updated or deleted.
+ */
+export async function runAfterCommitHooks(model: Model<any>, type: ChangeType): Promise<void> {
+  const run = async () => {
+    await (model as any).afterCommit(type);
+    for (const hook of getHooks(model, "afterCommit")) {
+      await hook(model, type);
+    }
+  };
+
+  const tx = currentTransaction();
+  if (tx) {
+    tx.afterCommit(run);
+  } else {
+    await run();
+  }
+}
@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Model } from "./model";
+
+const storage = new AsyncLocalStorage<IdentityMap>();
+
+/**
+ * Keeps one model instance per model class and primary key, so that every load of a row inside a
+ * `withIdentityMap()` callback returns the same instance.
+ */
+export class IdentityMap {
+  protected models: Map<Function, Map<unknown, Model<any>>> = new Map();
+
+  /**
+   * Get the instance registered for a primary key.
+   *
+   * @param modelClass - The model class.
+   * @param primaryKey - The primary key of the model.
+   * @returns The registered instance, or undefined.
+   */
+  public get<M extends Model<any>>(modelClass: new (...args: any[]) => M, primaryKey: unknown): M | undefined {
+    return this.models.get(modelClass)?.get(primaryKey) as M | undefined;
+  }
+
+  /**
+   * Register a model under its class and primary key, unless an instance is registered already.
+   * Models without a primary key are not registered.
+   *
+   * @param model - The model to register.
+   * @returns The registered instance: the existing one if there is one, or the model.
+   */
+  public add<M extends Model<any>>(model: M): M {
+    const primaryKey = primaryKeyOf(model);
+    if (primaryKey === undefined || primaryKey === null) return model;
+    let models = this.models.get(model.constructor);
+    if (!models) {
+      models = new Map();
+      this.models.set(model.constructor, models);
+    }
+    const existing = models.get(primaryKey);
+    if (existing) return existing as M;
+    models.set(primaryKey, model);
+    return model;
+  }
+
+  /**
+   * Unregister a model, if it is the instance registered for its primary key.
+   *
+   * @param model - The model to unregister.
+   */
+  public remove(model: Model<any>) {
+    const models = this.models.get(model.constructor);
+    const primaryKey = primaryKeyOf(model);
+    if (models?.get(primaryKey) === model) models.delete(primaryKey);
+  }
+
+  /**
+   * Unregister every model of a class, or every model if no class is given.
+   *
+   * @param modelClass - The model class to clear.
+   */
+  public clear(modelClass?: Function) {
+    if (modelClass) {
+      this.models.delete(modelClass);
+    } else {
+      this.models.clear();
+    }
+  }
+}
+
+function primaryKeyOf(model: Model<any>): unknown {
+  const { adapter } = (model.constructor as typeof Model).getPersistence();
+  return model.get(adapter.getPrimaryKeyField());
+}
+
+/**
+ * Get the identity map of the current async call chain, if any.
+ *
+ * @returns The current identity map, or undefined.
+ */
+export function currentIdentityMap(): IdentityMap | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run a callback with an identity map. Inside it, `get`, `getBy`, `all` and queries return the
+ * registered instance for rows that were loaded before, without running the `postLoad` hook again or
+ * overwriting unsaved changes. Inserted models are registered, and deleted ones unregistered. Nested
+ * calls share the enclosing map.
+ *
+ * @param callback - The callback to run.
+ * @returns A promise that resolves to the callback's result.
+ */
+export async function withIdentityMap<R>(callback: (map: IdentityMap) => Promise<R>): Promise<R> {
+  const current = currentIdentityMap();
+  if (current) return callback(current);
+  const map = new IdentityMap();
+  return storage.run(map, () => callback(map));
+}
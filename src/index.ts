@@ -1,4 +1,27 @@
 export * from "./types"
+export * from "./errors"
 export * from "./model"
+export * from "./accessors"
+export * from "./dirty"
 export * from "./persistence"
-export * from "./adapter"
\ No newline at end of file
+export * from "./adapter"
+export * from "./query"
+export * from "./query-builder"
+export * from "./pagination"
+export * from "./aggregates"
+export * from "./relations"
+export * from "./serialization"
+export * from "./locking"
+export * from "./soft-delete"
+export * from "./timestamps"
+export * from "./transaction"
+export * from "./identity-map"
+export * from "./migrations"
+export * from "./schema"
+export * from "./validation"
+export * from "./hooks"
+export * from "./events"
+export * from "./audit"
+export * from "./adapters/naming"
+export * from "./adapters/keys"
+export * from "./adapters/memory"
\ No newline at end of file
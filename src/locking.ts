@@ -0,0 +1,23 @@
+import { GlobalSpec } from "./types";
+
+/**
+ * Get the field that holds the version of models with optimistic locking.
+ *
+ * @param globalSpec - The global spec of the model class.
+ * @returns The field name, or undefined if optimistic locking is not enabled.
+ */
+export function getVersionField(globalSpec?: GlobalSpec<any>): string | undefined {
+  const option = globalSpec?.optimisticLocking;
+  if (!option) return undefined;
+  return option === true ? "version" : option.field ?? "version";
+}
+
+/**
+ * Get the version that follows a stored version. Rows without a version are treated as version 0.
+ *
+ * @param version - The stored version.
+ * @returns The next version.
+ */
+export function nextVersion(version: unknown): number {
+  return (Number(version) || 0) + 1;
+}
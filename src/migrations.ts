@@ -0,0 +1,239 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { AdapterConfig } from "./adapter";
+import { getContext, transaction } from "./transaction";
+
+/**
+ * A schema migration. `up` applies it and `down` reverts it; both receive the context of the
+ * migrator's adapter, inside a transaction if the adapter supports them.
+ */
+export interface Migration {
+  /** The migration's name. Migrations are applied in name order, so names start with a timestamp. */
+  name: string;
+  up: (context: any) => Promise<void>;
+  down: (context: any) => Promise<void>;
+}
+
+/**
+ * A migration recorded as applied.
+ */
+export interface AppliedMigration {
+  name: string;
+  appliedAt: Date;
+}
+
+/**
+ * Keeps track of which migrations have been applied, usually in a table of the database being
+ * migrated. Every method receives the context of the migrator's adapter.
+ */
+export interface MigrationStore {
+  /** Create the storage, e.g. the migrations table, if it doesn't exist. */
+  prepare: (context: any) => Promise<void>;
+  /** List the applied migrations. */
+  applied: (context: any) => Promise<AppliedMigration[]>;
+  /** Record a migration as applied. */
+  record: (context: any, name: string, appliedAt: Date) => Promise<void>;
+  /** Remove the record of a migration after it was reverted. */
+  forget: (context: any, name: string) => Promise<void>;
+}
+
+export type MigratorOptions = {
+  /** The adapter whose context migrations run in. */
+  adapter: AdapterConfig<any>;
+  /** Where applied migrations are recorded. */
+  store: MigrationStore;
+  /** The migrations, or a function loading them, e.g. `() => loadMigrations("migrations")`. */
+  migrations: Migration[] | (() => Promise<Migration[]>);
+}
+
+/**
+ * The state of a migration: `"missing"` if it was applied but is not among the known migrations.
+ */
+export interface MigrationStatus {
+  name: string;
+  state: "applied" | "pending" | "missing";
+  appliedAt?: Date;
+}
+
+/**
+ * Applies and reverts migrations. Each migration runs in its own transaction together with the update
+ * of the migration store, so a failing migration leaves neither partial changes nor a record behind on
+ * adapters with transactions.
+ */
+export class Migrator {
+  constructor(protected readonly options: MigratorOptions) {}
+
+  /**
+   * List every known or applied migration with its state, in name order.
+   *
+   * @returns A promise that resolves to the migration states.
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const migrations = await this.load();
+    const applied = await this.applied();
+    const appliedAt = new Map(applied.map((migration) => [migration.name, migration.appliedAt] as [string, Date]));
+    const names = new Set([...migrations.map((migration) => migration.name), ...applied.map((migration) => migration.name)]);
+
+    return Array.from(names).sort().map((name) => {
+      const known = migrations.some((migration) => migration.name === name);
+      const at = appliedAt.get(name);
+      if (!at) return { name, state: "pending" as const };
+      return { name, state: known ? "applied" as const : "missing" as const, appliedAt: at };
+    });
+  }
+
+  /**
+   * Apply pending migrations in name order.
+   *
+   * @param options - Set `to` to stop after the migration with that name.
+   * @returns A promise that resolves to the names of the applied migrations.
+   */
+  public async up(options: { to?: string } = {}): Promise<string[]> {
+    const migrations = await this.load();
+    const { to } = options;
+    if (to !== undefined && !migrations.some((migration) => migration.name === to)) {
+      throw new Error(`Unknown migration: ${to}`);
+    }
+    const applied = new Set((await this.applied()).map((migration) => migration.name));
+    const pending = migrations.filter((migration) => !applied.has(migration.name) && (to === undefined || migration.name <= to));
+
+    for (const migration of pending) {
+      await transaction(async () => {
+        const context = await getContext(this.options.adapter);
+        await migration.up(context);
+        await this.options.store.record(context, migration.name, new Date());
+      });
+    }
+    return pending.map((migration) => migration.name);
+  }
+
+  /**
+   * Revert the most recently applied migrations, latest name first.
+   *
+   * @param options - Set `steps` to the number of migrations to revert. Defaults to 1.
+   * @returns A promise that resolves to the names of the reverted migrations.
+   */
+  public async down(options: { steps?: number } = {}): Promise<string[]> {
+    const { steps = 1 } = options;
+    const migrations = await this.load();
+    const applied = (await this.applied()).map((migration) => migration.name).sort().reverse().slice(0, steps);
+
+    for (const name of applied) {
+      const migration = migrations.find((candidate) => candidate.name === name);
+      if (!migration) throw new Error(`Cannot revert migration ${name}: it is not among the known migrations`);
+      await transaction(async () => {
+        const context = await getContext(this.options.adapter);
+        await migration.down(context);
+        await this.options.store.forget(context, name);
+      });
+    }
+    return applied;
+  }
+
+  protected async load(): Promise<Migration[]> {
+    const { migrations } = this.options;
+    const list = typeof migrations === "function" ? await migrations() : migrations;
+    return list.slice().sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  }
+
+  protected async applied(): Promise<AppliedMigration[]> {
+    const context = await getContext(this.options.adapter);
+    await this.options.store.prepare(context);
+    return this.options.store.applied(context);
+  }
+}
+
+const migrationFilePattern = /^(\d{14}_[\w-]+)\.(ts|js|mjs|cjs)$/;
+
+/**
+ * Import a module by file path.
+ *
+ * @param file - The path of the module.
+ * @returns A promise that resolves to the module's exports.
+ */
+export function importFile(file: string): Promise<any> {
+  return import(pathToFileURL(path.resolve(file)).href);
+}
+
+/**
+ * Load the migration files in a directory. Files are named `<timestamp>_<description>.<ext>`, with a
+ * 14 digit UTC timestamp, and export `up` and `down` functions.
+ *
+ * @param directory - The directory holding the migration files.
+ * @returns A promise that resolves to the migrations in name order.
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const migrations: Migration[] = [];
+  for (const file of files.sort()) {
+    const match = migrationFilePattern.exec(file);
+    if (!match) continue;
+    const module = await importFile(path.join(directory, file));
+    const up = module.up ?? module.default?.up;
+    const down = module.down ?? module.default?.down;
+    if (typeof up !== "function" || typeof down !== "function") {
+      throw new Error(`Migration ${file} must export up and down functions`);
+    }
+    migrations.push({ name: match[1]!, up, down });
+  }
+  return migrations;
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (value: number) => `0${value}`.slice(-2);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+const templates = {
+  ts: `export async function up(context: any): Promise<void> {
+}
+
+export async function down(context: any): Promise<void> {
+}
+`,
+  js: `export async function up(context) {
+}
+
+export async function down(context) {
+}
+`,
+  mjs: `export async function up(context) {
+}
+
+export async function down(context) {
+}
+`,
+};
+
+/**
+ * Create an empty migration file named after the current time and a description.
+ *
+ * @param directory - The directory to create the file in. It is created if needed.
+ * @param description - What the migration does, e.g. `"create people"`.
+ * @param options - The file extension, and the time to name the file after. Defaults to `"mjs"`, which
+ * Node loads as an ES module in any package; `"ts"` files need a TypeScript loader.
+ * @returns A promise that resolves to the path of the created file.
+ */
+export async function createMigrationFile(
+  directory: string,
+  description: string,
+  options: { extension?: "mjs" | "js" | "ts"; now?: Date } = {}
+): Promise<string> {
+  const { extension = "mjs", now = new Date() } = options;
+  const slug = description.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!slug) throw new Error("A migration needs a description");
+
+  const file = path.join(directory, `${formatTimestamp(now)}_${slug}.${extension}`);
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(file, templates[extension], { flag: "wx" });
+  return file;
+}
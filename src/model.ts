@@ -1,12 +1,40 @@
-import { ModelAttributes, PersistenceInfo } from "./types";
+import { defineFieldAccessors } from "./accessors";
+import { AggregateSpecs, GroupBucket, NumericField, runAggregate, runAggregates } from "./aggregates";
+import { ModelNotFoundError, StaleModelError, ValidationError, ValidationErrors } from "./errors";
+import { cloneValue, valuesEqual } from "./dirty";
+import { getHistory, ModelHistory, recordChange } from "./audit";
+import { emitModelEvent } from "./events";
+import { runAfterCommitHooks, runHooks } from "./hooks";
+import { currentIdentityMap } from "./identity-map";
+import { getVersionField, nextVersion } from "./locking";
+import { CursorPaginationOptions, OffsetPage, OffsetPaginationOptions, Page, PaginationOptions } from "./pagination";
+import { FieldOperators, Operator, WhereClause } from "./query";
+import { QueryBuilder } from "./query-builder";
+import { RelationNames, saveRelations } from "./relations";
+import {
+  HiddenFields, OmitOptions, PickOptions, SerializedRelations, SerializeOptions, serializeModel, VirtualValues,
+  Virtuals,
+} from "./serialization";
+import { excludeDeleted, getSoftDeleteField, isSoftDeleted } from "./soft-delete";
+import { applyTimestamps, getTimestampConfig } from "./timestamps";
+import { currentTransaction, getContext, transaction } from "./transaction";
+import {
+  ChangeType, DeleteType, ModelAttributes, ModelChanges, ModelClass, ModelType, PersistenceInfo, SaveType,
+} from "./types";
+import { validateModel } from "./validation";
 
 /**
  * Base class for all models. Set persistence information using the `Persistence` decorator.
  */
 export class Model<T extends ModelAttributes> {
   protected static persistence: PersistenceInfo<Model<any>>;
+  /** Whether instances have a property for each field. Set by `withAccessors`. */
+  protected static accessors = false;
   protected data: T = {} as T;
   protected changedFields: Set<string> = new Set();
+  /** Copies of the field values as they were when the model was loaded or last saved. */
+  protected originalValues: Map<string, unknown> = new Map();
+  protected _previousChanges: ModelChanges<T> = {};
   protected _persisted: boolean;
 
   /**
@@ -27,6 +55,26 @@ export class Model<T extends ModelAttributes> {
     return this._persisted;
   }
 
+  /**
+   * Check if the model has been soft-deleted. Always false for models without soft delete.
+   *
+   * @returns True if the model has been soft-deleted, false otherwise.
+   */
+  get deleted() {
+    const field = getSoftDeleteField((this.constructor as any).getPersistence().globalSpec);
+    return field ? isSoftDeleted(this.data, field) : false;
+  }
+
+  /**
+   * Get the changes written by the last save, as `[from, to]` pairs keyed by field. Available inside
+   * the `postSave` hook, where the model's own changes have already been cleared.
+   *
+   * @returns The changes of the last save, or an empty object if the model was never saved.
+   */
+  get previousChanges(): ModelChanges<T> {
+    return this._previousChanges;
+  }
+
   /**
    * Get the fields that have been changed.
    *
@@ -37,10 +85,61 @@ export class Model<T extends ModelAttributes> {
   }
 
   /**
-   * Clear the list of changed fields.
+   * Get the unsaved changes of the model.
+   *
+   * @returns The changes as `[from, to]` pairs keyed by field, where `from` is the value the field had
+   *   when it was loaded or last saved.
+   */
+  public getChanges(): ModelChanges<T> {
+    const changes: ModelChanges<T> = {};
+    for (const field of Array.from(this.changedFields) as (keyof T & string)[]) {
+      changes[field] = [this.originalValues.get(field) as T[typeof field], this.data[field]];
+    }
+    return changes;
+  }
+
+  /**
+   * Check whether a field has unsaved changes.
+   *
+   * @param field - The key of the field to check.
+   * @returns True if the field has been changed.
+   */
+  public wasChanged(field: keyof T): boolean {
+    return this.changedFields.has(String(field));
+  }
+
+  /**
+   * Set changed fields back to the values they had when the model was loaded or last saved, and mark
+   * them as unchanged.
+   *
+   * @param field - The key of the field to revert. Reverts every changed field if omitted.
+   * @returns The model instance.
+   */
+  public revert(field?: keyof T): this {
+    const fields = field === undefined ? Array.from(this.changedFields) : [String(field)];
+    for (const key of fields) {
+      if (this.changedFields.has(key)) {
+        const original = this.originalValues.get(key);
+        if (original === undefined) {
+          delete this.data[key];
+        } else {
+          (this.data as ModelAttributes)[key] = cloneValue(original);
+        }
+      }
+      this.markUnchanged(key);
+    }
+    return this;
+  }
+
+  /**
+   * Clear the list of changed fields, making the current values the original ones.
    */
   public clearChangedFields() {
     this.changedFields.clear();
+    this.originalValues.clear();
+    for (const field of Object.keys(this.data)) {
+      this.originalValues.set(field, cloneValue(this.data[field]));
+    }
   }
 
   /**
@@ -53,12 +152,14 @@ export class Model<T extends ModelAttributes> {
   }
 
   /**
-   * Manually mark a field as unchanged.
+   * Manually mark a field as unchanged, making its current value the original one.
    *
    * @param field - The key of the field to mark as unchanged.
    */
   public markUnchanged(field: keyof T) {
-    this.changedFields.delete(String(field));
+    const key = String(field);
+    this.changedFields.delete(key);
+    this.originalValues.set(key, cloneValue(this.data[key]));
   }
 
   /**
@@ -71,6 +172,8 @@ export class Model<T extends ModelAttributes> {
     if (persisted) {
       this.data = data;
       this._persisted = true;
+      this.clearChangedFields();
+      this.defineAccessors(Object.keys(data));
     } else {
       this.set(data);
       this._persisted = false;
@@ -79,7 +182,8 @@ export class Model<T extends ModelAttributes> {
 
   /**
    * Set a field on the model and mark it as changed. Alternatively, you can pass a partial object
-   * to set multiple fields at once.
+   * to set multiple fields at once. On persisted models, a field set back to its original value is
+   * marked as unchanged again; values are compared with `valuesEqual`.
    *
    * @param keyOrChanges - The key of the field to set, or a partial object of fields to set.
    * @param value - The value to set the field to, if setting a single field. Ignored otherwise.
@@ -89,21 +193,30 @@ export class Model<T extends ModelAttributes> {
   public set(changes: Partial<T>): Model<T>;
   public set<K extends keyof T>(keyOrChanges: K | Partial<T>, value?: T[K]): Model<T> {
     if (typeof keyOrChanges === "string") {
-      this.data[keyOrChanges as K] = value as T[K];
-      this.changedFields.add(keyOrChanges);
+      this.change(keyOrChanges, value);
     } else {
-      this.data = { ...this.data, ...keyOrChanges as Partial<T> };
+      this.data = { ...this.data };
       for (let key in keyOrChanges as Partial<T>) {
-        this.changedFields.add(key);
+        this.change(key, (keyOrChanges as Partial<T>)[key]);
       }
     }
 
     return this;
   }
 
+  protected change(field: string, value: unknown) {
+    (this.data as ModelAttributes)[field] = value;
+    this.defineAccessors([field]);
+    if (this._persisted && valuesEqual(value, this.originalValues.get(field))) {
+      this.markUnchanged(field);
+    } else {
+      this.changedFields.add(field);
+    }
+  }
+
   /**
    * Set a field on the model without marking it as changed. Alternatively, you can pass a partial object
-   * to set multiple fields at once.
+   * to set multiple fields at once. Values of unchanged fields become their original values.
    *
    * @param keyOrChanges - The key of the field to set, or a partial object of fields to set.
    * @param value - The value to set the field to, if setting a single field. Ignored otherwise.
@@ -112,15 +225,35 @@ export class Model<T extends ModelAttributes> {
   public put<K extends keyof T>(key: K, value: T[K]): Model<T>;
   public put(changes: Partial<T>): Model<T>;
   public put<K extends keyof T>(keyOrChanges: K | Partial<T>, value?: T[K]): Model<T> {
-    if (typeof keyOrChanges === "string") {
-      this.data[keyOrChanges as K] = value as T[K];
-    } else {
-      this.data = { ...this.data, ...keyOrChanges as Partial<T> };
+    const changes = (typeof keyOrChanges === "string" ? { [keyOrChanges]: value } : keyOrChanges) as Partial<T>;
+    this.data = { ...this.data, ...changes };
+    for (const field of Object.keys(changes)) {
+      if (!this.changedFields.has(field)) this.originalValues.set(field, cloneValue(this.data[field]));
     }
+    this.defineAccessors(Object.keys(changes));
 
     return this;
   }
 
+  /**
+   * Define a property for each of the given fields on the model's class, if the class was created with
+   * `withAccessors`.
+   *
+   * @param fields - The names of the fields.
+   */
+  protected defineAccessors(fields: string[]) {
+    if ((this.constructor as typeof Model).accessors) defineFieldAccessors(Object.getPrototypeOf(this), fields);
+  }
+
+  /**
+   * Get all fields of the model.
+   *
+   * @returns A shallow copy of the model's fields.
+   */
+  public getAttributes(): T {
+    return { ...this.data };
+  }
+
   /**
    * Get a field from the model.
    *
@@ -132,7 +265,37 @@ export class Model<T extends ModelAttributes> {
   }
 
   /**
-   * Retrieve all models from the database that match the given criteria.
+   * Convert the model to a plain object, e.g. to send it from an API. Fields whose spec is `hidden`
+   * are left out unless picked. They're left out of the return type too if the class declares them,
+   * as in `declare hiddenFields: "secretKey"`.
+   *
+   * @param options - Optional. Fields to `pick` or `omit`, loaded relations to `include`, serialized
+   * with their `toJSON`, and `virtuals` that compute extra attributes from the model.
+   * @returns A new object with the selected fields, relations and virtual attributes.
+   */
+  public toObject<K extends keyof T & string, I extends RelationNames<this> = never, V extends Virtuals<this> = {}>(
+    options: PickOptions<this, K, I, V>
+  ): Pick<T, K> & SerializedRelations<this, I> & VirtualValues<V>;
+  public toObject<K extends keyof T & string = never, I extends RelationNames<this> = never, V extends Virtuals<this> = {}>(
+    options?: OmitOptions<this, K, I, V>
+  ): Omit<T, K | HiddenFields<this>> & SerializedRelations<this, I> & VirtualValues<V>;
+  public toObject(options?: SerializeOptions<this>): Record<string, unknown> {
+    return serializeModel(this, options);
+  }
+
+  /**
+   * Convert the model to the object `JSON.stringify` serializes: its fields, without hidden ones.
+   * Override it to change the output of a model class, e.g. with `toObject` and options.
+   *
+   * @returns A new object with the model's visible fields.
+   */
+  public toJSON(): Partial<Omit<T, HiddenFields<this>>> {
+    return serializeModel(this) as Partial<Omit<T, HiddenFields<this>>>;
+  }
+
+  /**
+   * Retrieve all models from the database that match the given criteria. Soft-deleted models are
+   * excluded unless the match object includes the soft delete field.
    *
    * @param matchOrQuery - Optional partial object to match against or SQL query string.
    * @param bindValues - Optional array of values to bind to the query if using a SQL string.
@@ -144,39 +307,232 @@ export class Model<T extends ModelAttributes> {
     bindValues?: any[]
   ): Promise<M[]> {
     const { adapter, globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
-    const context = await adapter.getContext();
-    const rows = await adapter.all(context, matchOrQuery, bindValues);
-    let models = rows.map(row => (this as any).fromRow(row)) as M[];
-    if (globalSpec?.postLoad) {
-      const promises = models.map<Promise<void>>((model) => globalSpec?.postLoad!(context, model as any));
-      await Promise.all(promises);
+    const context = await getContext(adapter);
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    let rows: ModelAttributes[];
+    if (!softDeleteField) {
+      rows = await adapter.all(context, matchOrQuery, bindValues);
+    } else if (typeof matchOrQuery === "string") {
+      rows = (await adapter.all(context, matchOrQuery, bindValues)).filter((row) => !isSoftDeleted(row, softDeleteField));
+    } else {
+      rows = await adapter.all(context, excludeDeleted(matchOrQuery, softDeleteField));
     }
-    return models as M[];
+    return (this as any).hydrate(context, rows);
+  }
+
+  /**
+   * Start a query against this model class. Conditions are typed against the model's attributes and
+   * support comparison operators; see `QueryBuilder` for ordering, paging and terminal methods.
+   *
+   * @param whereOrField - An object of conditions keyed on fields, or a single field name.
+   * @param operator - The operator to apply, if passing a field name.
+   * @param value - The value to compare against, if passing a field name.
+   * @returns A query builder.
+   */
+  public static where<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    where?: WhereClause<ModelType<M>>
+  ): QueryBuilder<M>;
+  public static where<
+    M extends Model<any>,
+    K extends keyof ModelType<M> & string,
+    O extends keyof FieldOperators<ModelType<M>[K]> & Operator
+  >(
+    this: new (...args: any[]) => M,
+    field: K,
+    operator: O,
+    value: FieldOperators<ModelType<M>[K]>[O]
+  ): QueryBuilder<M>;
+  public static where<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    whereOrField?: WhereClause<ModelType<M>> | string,
+    operator?: Operator,
+    value?: any
+  ): QueryBuilder<M> {
+    const builder = new QueryBuilder<M>(this);
+    if (whereOrField === undefined) return builder;
+    if (typeof whereOrField === "string") return (builder as any).where(whereOrField, operator, value);
+    return builder.where(whereOrField);
+  }
+
+  /**
+   * Start a query against this model class that eager loads the given relations. Shorthand for
+   * `where().include(...names)`.
+   *
+   * @param names - The names of the relations to load.
+   * @returns A query builder.
+   */
+  public static include<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    ...names: RelationNames<M>[]
+  ): QueryBuilder<M> {
+    return new QueryBuilder<M>(this).include(...names);
+  }
+
+  /**
+   * Start a query against this model class that includes soft-deleted models.
+   *
+   * @returns A query builder.
+   */
+  public static withDeleted<M extends Model<any>>(this: new (...args: any[]) => M): QueryBuilder<M> {
+    return new QueryBuilder<M>(this).withDeleted();
+  }
+
+  /**
+   * Start a query against this model class that returns only soft-deleted models.
+   *
+   * @returns A query builder.
+   */
+  public static onlyDeleted<M extends Model<any>>(this: new (...args: any[]) => M): QueryBuilder<M> {
+    return new QueryBuilder<M>(this).onlyDeleted();
+  }
+
+  /**
+   * Load one page of the models of this class, ordered by primary key. Shorthand for
+   * `where().paginate(options)`; see `QueryBuilder.paginate`.
+   *
+   * @param options - The page number or cursor, and the page size.
+   * @returns A promise that resolves to the page.
+   */
+  public static paginate<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    options: OffsetPaginationOptions
+  ): Promise<OffsetPage<M>>;
+  public static paginate<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    options?: CursorPaginationOptions
+  ): Promise<Page<M>>;
+  public static paginate<M extends Model<any>>(
+    this: new (...args: any[]) => M,
+    options?: PaginationOptions
+  ): Promise<Page<M>> {
+    return new QueryBuilder<M>(this).paginate(options as CursorPaginationOptions);
+  }
+
+  /**
+   * Count the models matching the given criteria. Like the other aggregates, it runs in the adapter if
+   * it supports aggregates, and soft-deleted models are excluded unless the match object includes the
+   * soft delete field.
+   *
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to the number of matching models.
+   */
+  public static async count<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    match?: Partial<T>
+  ): Promise<number> {
+    return (await runAggregate<T>(this, match, "count"))!;
+  }
+
+  /**
+   * Sum a numeric field over the models matching the given criteria.
+   *
+   * @param field - The field to sum.
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to the sum, 0 if no model has a value.
+   */
+  public static async sum<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    field: NumericField<T>,
+    match?: Partial<T>
+  ): Promise<number> {
+    return (await runAggregate<T>(this, match, ["sum", field])) ?? 0;
+  }
+
+  /**
+   * Average a numeric field over the models matching the given criteria.
+   *
+   * @param field - The field to average.
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to the average, or null if no model has a value.
+   */
+  public static async avg<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    field: NumericField<T>,
+    match?: Partial<T>
+  ): Promise<number | null> {
+    return runAggregate<T>(this, match, ["avg", field]);
+  }
+
+  /**
+   * Get the smallest value of a numeric field among the models matching the given criteria.
+   *
+   * @param field - The field.
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to the smallest value, or null if no model has a value.
+   */
+  public static async min<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    field: NumericField<T>,
+    match?: Partial<T>
+  ): Promise<number | null> {
+    return runAggregate<T>(this, match, ["min", field]);
+  }
+
+  /**
+   * Get the largest value of a numeric field among the models matching the given criteria.
+   *
+   * @param field - The field.
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to the largest value, or null if no model has a value.
+   */
+  public static async max<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    field: NumericField<T>,
+    match?: Partial<T>
+  ): Promise<number | null> {
+    return runAggregate<T>(this, match, ["max", field]);
+  }
+
+  /**
+   * Group the models matching the given criteria by the values of one or more fields and compute
+   * aggregates per group.
+   *
+   * @param fields - The field or fields to group by.
+   * @param aggregates - The aggregates to compute, keyed by the name of their result, e.g.
+   * `{ orders: "count", revenue: ["sum", "total"] }`. Defaults to `{ count: "count" }`.
+   * @param match - Optional partial object to match against.
+   * @returns A promise that resolves to a bucket per group, sorted by the grouped fields.
+   */
+  public static async groupBy<
+    T extends ModelAttributes,
+    M extends Model<T>,
+    K extends keyof T & string,
+    A extends AggregateSpecs<T> = { count: "count" }
+  >(
+    this: new (...args: any[]) => M & Model<T>,
+    fields: K | K[],
+    aggregates?: A,
+    match?: Partial<T>
+  ): Promise<GroupBucket<T, K, A>[]> {
+    const groupBy = Array.isArray(fields) ? fields : [fields];
+    const buckets = await runAggregates<T>(this, match, groupBy, aggregates ?? { count: "count" });
+    return buckets as GroupBucket<T, K, A>[];
   }
 
   /**
    * Load a model from the database.
    *
    * @param primaryKey - The ID of the model to load.
-   * @returns A promise that resolves to the loaded model, or null if it doesn't exist.
+   * @returns A promise that resolves to the loaded model, or null if it doesn't exist or is
+   *   soft-deleted.
    */
   public static async get<T extends ModelAttributes, M extends Model<T>>(
     this: new (...args: any[]) => M & Model<T>,
     primaryKey: any
   ): Promise<M | null> {
     const { adapter, globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
-    const context = await adapter.getContext();
+    const context = await getContext(adapter);
     const row = await adapter.get(context, primaryKey);
-    if (!row) return null;
-    let model = (this as any).fromRow(row) as M;
-    if (globalSpec?.postLoad) {
-      await globalSpec.postLoad(context, model as any);
-    }
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    if (!row || (softDeleteField && isSoftDeleted(row, softDeleteField))) return null;
+    const [model] = await (this as any).hydrate(context, [row]);
     return model;
   }
 
   /**
-   * Retrieve a single model from the database that matches the given criteria.
+   * Retrieve a single model from the database that matches the given criteria. Soft-deleted models
+   * are excluded unless the match object includes the soft delete field.
    *
    * @param matchOrQuery - Partial object to match against or SQL query string.
    * @param bindValues - Optional array of values to bind to the query if using a SQL string.
@@ -188,16 +544,184 @@ export class Model<T extends ModelAttributes> {
     bindValues?: any[]
   ): Promise<M | null> {
     const { adapter, globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
-    const context = await adapter.getContext();
-    const row = await adapter.getBy(context, matchOrQuery as any, bindValues);
-    if (!row) return null;
-    let model = (this as any).fromRow(row) as M;
-    if (globalSpec?.postLoad) {
-      await globalSpec.postLoad(context, model as any);
+    const context = await getContext(adapter);
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    let row: ModelAttributes | null;
+    if (!softDeleteField) {
+      row = await adapter.getBy(context, matchOrQuery as any, bindValues);
+    } else if (typeof matchOrQuery === "string") {
+      // the first row may be deleted while a later one is not, so filter the full result
+      const rows = await adapter.all(context, matchOrQuery, bindValues);
+      row = rows.find((candidate) => !isSoftDeleted(candidate, softDeleteField)) ?? null;
+    } else {
+      row = await adapter.getBy(context, excludeDeleted(matchOrQuery, softDeleteField));
     }
+    if (!row) return null;
+    const [model] = await (this as any).hydrate(context, [row]);
     return model;
   }
 
+  /**
+   * Insert many models at once. Each model goes through the same steps as in `save()`: timestamps, the
+   * `preSave` hook, validation and the `postSave` hook, but related models are not saved. Every model
+   * is validated before any row is written, and the rows are written in one transaction with the
+   * adapter's `insertMany`, or with `insert` for each model if the adapter has none.
+   *
+   * @param items - Unsaved models, or attributes to create them from.
+   * @returns A promise that resolves to the inserted models, with their primary keys set.
+   */
+  public static async insertMany<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    items: (M | T)[]
+  ): Promise<M[]> {
+    const models = items.map((item) => item instanceof Model ? item as M : new this(item));
+    if (models.some((model) => model.persisted)) throw new Error("Cannot insert persisted models");
+    const { adapter } = (this as unknown as typeof Model<T>).getPersistence();
+
+    return transaction(async () => {
+      const context = await getContext(adapter);
+      const data: Partial<T>[] = [];
+      for (const model of models) {
+        data.push((await model.prepareSave(context, "insert"))!);
+      }
+
+      if (adapter.insertMany) {
+        const { rows } = await adapter.insertMany(context, models as Model<any>[], data);
+        if (rows !== models.length) throw new Error("Failed to save models to database");
+      } else {
+        for (let i = 0; i < models.length; i++) {
+          const { success } = await adapter.insert(context, models[i] as Model<any>, data[i]!);
+          if (!success) throw new Error("Failed to save model to database");
+        }
+      }
+
+      for (const model of models) {
+        await model.completeSave(context, "insert");
+      }
+      return models;
+    });
+  }
+
+  /**
+   * Write changes to every row matching a match object, without loading models. The changes are
+   * encoded with the field encoders, and the updated field is set for models with timestamps.
+   * Soft-deleted rows are left alone. No hooks or validation run. For models with optimistic locking,
+   * the rows are updated one by one so that each row's version is incremented. Inside
+   * `withIdentityMap()`, the class's models are unregistered so that later loads see the new values.
+   *
+   * @param match - Partial object to match against.
+   * @param changes - The fields to write.
+   * @returns A promise that resolves to the number of rows changed.
+   */
+  public static async updateAll<T extends ModelAttributes>(
+    this: new (...args: any[]) => Model<T>,
+    match: Partial<T>,
+    changes: Partial<T>
+  ): Promise<number> {
+    const { globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
+    const values: Partial<T> = { ...changes };
+    const timestamps = getTimestampConfig(globalSpec);
+    if (timestamps?.updatedAt && !(timestamps.updatedAt in values)) {
+      values[timestamps.updatedAt as keyof T] = timestamps.clock() as T[keyof T];
+    }
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    return (this as any).writeAll(softDeleteField ? excludeDeleted(match, softDeleteField) : match, values);
+  }
+
+  /**
+   * Delete every row matching a match object, without loading models. For models with soft delete,
+   * the rows are soft-deleted unless `force` is set. No hooks run. Like `updateAll`, it unregisters the
+   * class's models from the current identity map, as they may no longer match their rows.
+   *
+   * @param match - Partial object to match against. Pass `{}` to delete every row.
+   * @param options - Set `force` to remove rows of models with soft delete.
+   * @returns A promise that resolves to the number of rows deleted.
+   */
+  public static async deleteAll<T extends ModelAttributes>(
+    this: new (...args: any[]) => Model<T>,
+    match: Partial<T>,
+    options: { force?: boolean } = {}
+  ): Promise<number> {
+    const { adapter, globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    if (softDeleteField && !options.force) {
+      const now = getTimestampConfig(globalSpec)?.clock() ?? new Date();
+      return (this as any).writeAll(excludeDeleted(match, softDeleteField), { [softDeleteField]: now });
+    }
+
+    currentIdentityMap()?.clear(this);
+    return transaction(async () => {
+      const context = await getContext(adapter);
+      if (adapter.deleteAll) return adapter.deleteAll(context, match);
+      const rows = await adapter.all(context, match);
+      let deleted = 0;
+      for (const row of rows) {
+        if (await adapter.del(context, (this as any).fromRow(row))) deleted++;
+      }
+      return deleted;
+    });
+  }
+
+  /**
+   * Encode values and write them to every row matching a match object, with the adapter's `updateAll`
+   * or row by row.
+   */
+  protected static async writeAll<T extends ModelAttributes>(
+    this: new (...args: any[]) => Model<T>,
+    match: Partial<T>,
+    values: Partial<T>
+  ): Promise<number> {
+    const { adapter, fieldSpecs, globalSpec } = (this as unknown as typeof Model<T>).getPersistence();
+    const data: Partial<T> = {};
+    for (const field of Object.keys(values) as (keyof T & string)[]) {
+      if (fieldSpecs?.[field]?.persist === false) continue;
+      const encoder = fieldSpecs?.[field]?.encoder;
+      data[field] = encoder ? encoder.encode(values[field]) : values[field];
+    }
+
+    currentIdentityMap()?.clear(this);
+    return transaction(async () => {
+      const context = await getContext(adapter);
+      if (adapter.updateAll && !getVersionField(globalSpec)) return adapter.updateAll(context, match, data);
+      const rows = await adapter.all(context, match);
+      let changed = 0;
+      for (const row of rows) {
+        const model: Model<T> = (this as any).fromRow(row);
+        if (await model.updateRow(context, data)) changed++;
+      }
+      return changed;
+    });
+  }
+
+  /**
+   * Create models from database rows and run the `postLoad` hook on each of them. Inside
+   * `withIdentityMap()`, rows whose model is registered already resolve to that instance, and the hook
+   * only runs on newly created models.
+   *
+   * @param context - The context the rows were loaded with.
+   * @param rows - The rows to create models from.
+   * @returns A promise that resolves to the models.
+   */
+  protected static async hydrate<T extends ModelAttributes, M extends Model<T>>(
+    this: new (...args: any[]) => M & Model<T>,
+    context: any,
+    rows: T[]
+  ): Promise<M[]> {
+    const identityMap = currentIdentityMap();
+    const created: M[] = [];
+    const models = rows.map((row) => {
+      const model = (this as any).fromRow(row) as M;
+      const registered = identityMap ? identityMap.add(model) : model;
+      if (registered === model) created.push(model);
+      return registered;
+    });
+    await Promise.all(created.map(async (model) => {
+      await runHooks(model, "postLoad", context);
+      await emitModelEvent(model, "load", context);
+    }));
+    return models;
+  }
+
   /**
    * Create a model from a database row.
    *
@@ -208,6 +732,17 @@ export class Model<T extends ModelAttributes> {
     this: new (...args: any[]) => Model<T>,
     row: T
   ): M {
+    return new this((this as any).decodeRow(row), true) as M;
+  }
+
+  /**
+   * Decode a database row into model data with the field encoders, leaving out fields that are not
+   * persisted.
+   *
+   * @param row - The row to decode.
+   * @returns The decoded data.
+   */
+  protected static decodeRow<T extends ModelAttributes>(this: new (...args: any[]) => Model<T>, row: T): T {
     const { fieldSpecs } = (this as unknown as typeof Model<T>).getPersistence();
     const data = {} as any;
     for (const key in row) {
@@ -217,22 +752,94 @@ export class Model<T extends ModelAttributes> {
         data[key] = fieldSpec?.encoder ? fieldSpec.encoder.decode(value) : value;
       }
     }
+    return data;
+  }
 
-    return new this(data, true) as M;
+  /**
+   * Validate the model against the rules in its `FieldSpecs` and the `validate` option of its
+   * `GlobalSpec`.
+   *
+   * @returns A promise that resolves to the errors keyed by field; empty if the model is valid.
+   */
+  public async validate(): Promise<ValidationErrors> {
+    return validateModel(this, (this.constructor as any).getPersistence());
+  }
+
+  /**
+   * Check whether the model passes validation.
+   *
+   * @returns A promise that resolves to true if the model is valid.
+   */
+  public async isValid(): Promise<boolean> {
+    return Object.keys(await this.validate()).length === 0;
+  }
+
+  /**
+   * Load the audit history of the model. Requires auditing to be enabled with `enableAudit` and the
+   * `audit` option of the model class.
+   *
+   * @returns A promise that resolves to the model's history.
+   */
+  public async history(): Promise<ModelHistory<this>> {
+    const { adapter } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    return getHistory(this.constructor as ModelClass<this>, this.get(adapter.getPrimaryKeyField()));
   }
 
   /**
-   * Save the model to the database.
+   * Replace the model's data with its row in the database, discarding unsaved changes, and run the
+   * `postLoad` hook. Soft-deleted rows are reloaded too. Throws a `ModelNotFoundError` if the row no
+   * longer exists.
+   *
+   * @returns A promise that resolves to itself.
+   */
+  public async reload(): Promise<this> {
+    if (!this.persisted) throw new Error("Cannot reload unpersisted model");
+    const { adapter } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const context = await getContext(adapter);
+
+    const primaryKey = this.get(adapter.getPrimaryKeyField());
+    const row = await adapter.get(context, primaryKey);
+    if (!row) throw new ModelNotFoundError(this, primaryKey);
+
+    this.data = (this.constructor as any).decodeRow(row);
+    this.defineAccessors(Object.keys(this.data));
+    this.clearChangedFields();
+    await runHooks(this, "postLoad", context);
+    await emitModelEvent(this, "load", context);
+    return this;
+  }
+
+  /**
+   * Save the model to the database. With the `timestamps` option, the created and updated fields are
+   * set before the `preSave` hook runs. The model is validated after the `preSave` hook runs, and a
+   * `ValidationError` is thrown without calling the adapter if it is invalid. Related models assigned
+   * through `belongsTo` relations are saved first, and those added through `hasMany` and `hasOne`
+   * relations are saved afterwards with their foreign key set. The model and its related models are
+   * saved in one transaction, so if one of them fails to save, none of them are. Inside a transaction,
+   * that transaction is used.
    *
    * @returns A promise that resolves to itself.
    */
   public async save(): Promise<this> {
-    const { adapter, fieldSpecs, globalSpec } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const saveAll = async () => {
+      await saveRelations(this, "beforeOwnerSave");
+      await this.saveAttributes();
+      await saveRelations(this, "afterOwnerSave");
+      return this;
+    };
+    return currentTransaction() ? saveAll() : transaction(saveAll);
+  }
 
-    let fields = this.getChangedFields().filter(field => fieldSpecs?.[field]?.persist !== false);
-    if (this.persisted && fields.length === 0) return this;
+  /**
+   * Write the model's changed fields to the database, running the save hooks and validation.
+   */
+  protected async saveAttributes(): Promise<void> {
+    const { adapter, fieldSpecs } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
 
-    const context = await adapter.getContext();
+    const fields = this.getChangedFields().filter(field => fieldSpecs?.[field]?.persist !== false);
+    if (this.persisted && fields.length === 0) return;
+
+    const context = await getContext(adapter);
 
     let type: "insert" | "update";
     if (this.persisted) {
@@ -241,15 +848,81 @@ export class Model<T extends ModelAttributes> {
       type = "insert";
     }
 
-    if (globalSpec?.preSave) {
-      await globalSpec.preSave(context, this, type);
+    this.restoreOnRollback();
+    const data = await this.prepareSave(context, type);
+    if (!data) return;
+
+    if (this.persisted) {
+      const success = await this.updateRow(context, data);
+      if (!success) throw new Error("Failed to save model to database");
+    } else {
+      const { success } = await adapter.insert(context, this, data);
+      if (!success) throw new Error("Failed to save model to database");
+    }
+
+    await this.completeSave(context, type);
+  }
+
+  /**
+   * Put the model back into its current state if the current transaction rolls back, so a save or
+   * delete that was rolled back doesn't leave it marked as persisted, with its changes cleared or with
+   * a version the row doesn't have. A model inserted in the transaction is also removed from the
+   * identity map.
+   */
+  protected restoreOnRollback() {
+    const tx = currentTransaction();
+    if (!tx) return;
+    const identityMap = currentIdentityMap();
+    const data = { ...this.data };
+    const changedFields = new Set(this.changedFields);
+    const originalValues = new Map(this.originalValues);
+    const previousChanges = this._previousChanges;
+    const persisted = this._persisted;
+    tx.onRollback(() => {
+      if (!persisted) identityMap?.remove(this);
+      this.data = data;
+      this.changedFields = changedFields;
+      this.originalValues = originalValues;
+      this._previousChanges = previousChanges;
+      this._persisted = persisted;
+    });
+  }
+
+  /**
+   * Get the model ready to be written: set timestamps and the initial version, run the pre-save hooks
+   * and validate.
+   *
+   * @param context - The context the model is saved with.
+   * @param type - Whether the model is being inserted or updated.
+   * @returns A promise that resolves to the encoded fields to write, or null if an update has nothing
+   *   to write.
+   */
+  protected async prepareSave(context: any, type: "insert" | "update"): Promise<Partial<T> | null> {
+    const persistence = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const { fieldSpecs, globalSpec } = persistence;
+
+    const timestamps = getTimestampConfig(globalSpec);
+    if (timestamps) {
+      applyTimestamps(this, type, timestamps);
+    }
+
+    const versionField = getVersionField(globalSpec);
+    if (type === "insert" && versionField && (this.get(versionField) ?? null) === null) {
+      this.set(versionField as keyof T, 0 as T[keyof T]);
     }
 
-    // pre-save hook may have changed additional fields
-    fields = this.getChangedFields().filter(
+    await runHooks(this, "preSave", context, type);
+    await runHooks(this, type === "insert" ? "preInsert" : "preUpdate", context);
+
+    // pre-save hooks may have changed additional fields
+    const fields = this.getChangedFields().filter(
       (field) => fieldSpecs?.[field]?.persist !== false
     );
-    if (this.persisted && fields.length === 0) return this;
+    if (type === "update" && fields.length === 0) return null;
+
+    await runHooks(this, "preValidate", context, type);
+    const errors = await validateModel(this, persistence);
+    if (Object.keys(errors).length > 0) throw new ValidationError(errors);
 
     const data: Partial<T> = {};
     for (const field of fields) {
@@ -257,44 +930,175 @@ export class Model<T extends ModelAttributes> {
       const encoder = fieldSpecs?.[field]?.encoder;
       data[field] = encoder ? encoder.encode(value) : value;
     }
+    return data;
+  }
 
-    if (this.persisted) {
-      const { success } = await adapter.update(context, this, data);
-      if (!success) throw new Error("Failed to save model to database");
-      type = "update";
-    } else {
-      const { success } = await adapter.insert(context, this, data);
-      if (!success) throw new Error("Failed to save model to database");
-      type = "insert";
-    }
-
+  /**
+   * Mark the model as persisted after it was written, and run the post-save hooks.
+   *
+   * @param context - The context the model was saved with.
+   * @param type - Whether the model was inserted or updated.
+   */
+  protected async completeSave(context: any, type: "insert" | "update") {
     this._persisted = true;
+    this._previousChanges = this.getChanges();
     this.clearChangedFields();
+    if (type === "insert") currentIdentityMap()?.add(this);
 
-    if (globalSpec?.postSave) {
-      await globalSpec.postSave(context, this, type);
-    }
-    return this;
+    await runHooks(this, type === "insert" ? "postInsert" : "postUpdate", context);
+    await runHooks(this, "postSave", context, type);
+    await recordChange(this, type, this.previousChanges);
+    await emitModelEvent(this, type, context, this.previousChanges);
+    await runAfterCommitHooks(this, type);
   }
 
   /**
-   * Delete the model from the database.
+   * Delete the model from the database. For models with soft delete, the deletion time is written
+   * instead and the row is kept; use `forceDelete` to remove it. A `preDelete` hook can cancel the
+   * delete by returning false.
    *
    * @returns A promise that resolves to true if the deletion was successful, false otherwise.
    */
   public async del(): Promise<boolean> {
+    const { globalSpec } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    if (!softDeleteField) return this.remove();
+    if (!this.persisted) throw new Error("Cannot delete unpersisted model");
+    if (this.deleted) return false;
+    const now = getTimestampConfig(globalSpec)?.clock() ?? new Date();
+    return this.writeDeletedAt(softDeleteField, now, "soft");
+  }
+
+  /**
+   * Delete the model's row from the database, even if the model has soft delete.
+   *
+   * @returns A promise that resolves to true if the deletion was successful, false otherwise.
+   */
+  public async forceDelete(): Promise<boolean> {
+    return this.remove();
+  }
+
+  /**
+   * Restore a soft-deleted model by clearing its deletion time.
+   *
+   * @returns A promise that resolves to true if the model was restored, false otherwise.
+   */
+  public async restore(): Promise<boolean> {
+    const { globalSpec } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const softDeleteField = getSoftDeleteField(globalSpec);
+    if (!softDeleteField) throw new Error("Cannot restore a model without soft delete");
+    if (!this.persisted) throw new Error("Cannot restore unpersisted model");
+    if (!this.deleted) return false;
+    return this.writeDeletedAt(softDeleteField, null);
+  }
+
+  protected async remove(): Promise<boolean> {
     if (!this.persisted) throw new Error("Cannot delete unpersisted model");
     const { adapter, globalSpec } = (
       this.constructor as any
     ).getPersistence() as PersistenceInfo<Model<T>>;
-    const context = await adapter.getContext();
+    const context = await getContext(adapter);
+    if (!await runHooks(this, "preDelete", context, "hard")) return false;
 
-    const success = await adapter.del(context, this);
-
-    if (success && globalSpec?.postDelete) {
-      await globalSpec.postDelete(context, this);
+    const versionField = getVersionField(globalSpec);
+    const conditions = versionField ? { [versionField]: this.get(versionField) } as Partial<T> : undefined;
+    const success = await adapter.del(context, this, conditions);
+    if (!success && versionField) throw new StaleModelError(this);
+    if (success) {
+      currentIdentityMap()?.remove(this);
+      await runHooks(this, "postDelete", context, "hard");
+      await recordChange(this, "delete", {}, "hard");
+      await emitModelEvent(this, "delete", context, {}, "hard");
+      await runAfterCommitHooks(this, "delete");
     }
 
     return success;
   }
-}
+
+  /**
+   * Write the soft delete field directly through the adapter, without the save hooks or validation.
+   * Soft deletes run the delete hooks.
+   */
+  protected async writeDeletedAt(field: string, value: Date | null, type?: DeleteType): Promise<boolean> {
+    const { adapter, fieldSpecs } = (
+      this.constructor as any
+    ).getPersistence() as PersistenceInfo<Model<T>>;
+    const context = await getContext(adapter);
+    if (type && !await runHooks(this, "preDelete", context, type)) return false;
+
+    const encoder = fieldSpecs?.[field]?.encoder;
+    const data = { [field]: value !== null && encoder ? encoder.encode(value as T[string]) : value } as Partial<T>;
+    const previous = this.get(field);
+    this.restoreOnRollback();
+    if (!await this.updateRow(context, data)) return false;
+    this.put(field as keyof T, value as T[keyof T]);
+    this.markUnchanged(field as keyof T);
+    if (type) {
+      currentIdentityMap()?.remove(this);
+      await runHooks(this, "postDelete", context, type);
+      await recordChange(this, "delete", { [field]: [previous, value] }, type);
+      await emitModelEvent(this, "delete", context, { [field]: [previous, value] }, type);
+      await runAfterCommitHooks(this, "delete");
+    }
+
+    return true;
+  }
+
+  /**
+   * Update the model's row through the adapter. For models with optimistic locking, the update only
+   * applies if the row still has the model's version, and increments it.
+   *
+   * @param context - The context to update with.
+   * @param data - The encoded fields to write.
+   * @returns A promise that resolves to true if the row was updated.
+   */
+  protected async updateRow(context: any, data: Partial<T>): Promise<boolean> {
+    const { adapter, globalSpec } = (this.constructor as any).getPersistence() as PersistenceInfo<Model<T>>;
+    const versionField = getVersionField(globalSpec);
+    if (!versionField) return (await adapter.update(context, this, data)).success;
+
+    const version = this.get(versionField);
+    const next = nextVersion(version);
+    const conditions = { [versionField]: version } as Partial<T>;
+    const { success } = await adapter.update(context, this, { ...data, [versionField]: next }, conditions);
+    if (!success) throw new StaleModelError(this);
+    this.put(versionField as keyof T, next as T[keyof T]);
+    this.markUnchanged(versionField as keyof T);
+    return true;
+  }
+
+  // hook methods: subclasses override them, and each runs before the global spec's hooks of the same name
+
+  /** Runs before the model is saved. */
+  protected async preSave(_context: any, _type: SaveType): Promise<void> {}
+
+  /** Runs before the model is inserted. */
+  protected async preInsert(_context: any): Promise<void> {}
+
+  /** Runs before the model is updated. */
+  protected async preUpdate(_context: any): Promise<void> {}
+
+  /** Runs before a save validates the model. */
+  protected async preValidate(_context: any, _type: SaveType): Promise<void> {}
+
+  /** Runs after the model was inserted. */
+  protected async postInsert(_context: any): Promise<void> {}
+
+  /** Runs after the model was updated. */
+  protected async postUpdate(_context: any): Promise<void> {}
+
+  /** Runs after the model was saved. */
+  protected async postSave(_context: any, _type: SaveType): Promise<void> {}
+
+  /** Runs after the model was loaded or reloaded. */
+  protected async postLoad(_context: any): Promise<void> {}
+
+  /** Runs before the model is deleted. Return false to cancel the delete. */
+  protected async preDelete(_context: any, _type: DeleteType): Promise<boolean | void> {}
+
+  /** Runs after the model was deleted. */
+  protected async postDelete(_context: any, _type: DeleteType): Promise<void> {}
+
+  /** Runs once the transaction the model was saved or deleted in has committed. */
+  protected async afterCommit(_type: ChangeType): Promise<void> {}
+}
\ No newline at end of file
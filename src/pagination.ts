@@ -0,0 +1,121 @@
+import { InvalidCursorError } from "./errors";
+import { Model } from "./model";
+import { Ordering } from "./query";
+import { ModelAttributes } from "./types";
+
+/**
+ * The number of models per page when `perPage` is not given.
+ */
+export const DEFAULT_PER_PAGE = 20;
+
+/**
+ * Options of offset pagination: the 1-based page number and the page size.
+ */
+export interface OffsetPaginationOptions {
+  page: number;
+  /** Defaults to `DEFAULT_PER_PAGE`. */
+  perPage?: number;
+}
+
+/**
+ * Options of cursor pagination. Without a cursor, the first page is returned.
+ */
+export interface CursorPaginationOptions {
+  /** Return the page after this cursor, taken from a page's `nextCursor`. */
+  after?: string | null;
+  /** Return the page before this cursor, taken from a page's `previousCursor`. */
+  before?: string | null;
+  /** Defaults to `DEFAULT_PER_PAGE`. */
+  perPage?: number;
+}
+
+export type PaginationOptions = OffsetPaginationOptions | CursorPaginationOptions;
+
+/**
+ * A page of models. Cursors are opaque strings that can be passed as `after` and `before` to get the
+ * following or preceding page; they are null when there is no such page.
+ */
+export interface Page<M extends Model<any>> {
+  models: M[];
+  perPage: number;
+  /** Whether there are models after this page. */
+  hasMore: boolean;
+  nextCursor: string | null;
+  previousCursor: string | null;
+}
+
+/**
+ * A page of offset pagination, with the total number of models.
+ */
+export interface OffsetPage<M extends Model<any>> extends Page<M> {
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+type CursorData = {
+  order: string[];
+  values: unknown[];
+}
+
+function describeOrder(orderBy: Ordering<any>[]): string[] {
+  return orderBy.map(({ field, direction }) => `${field} ${direction}`);
+}
+
+/**
+ * Check that a page number or page size is a positive integer.
+ *
+ * @param name - The option name, used in the error message.
+ * @param value - The value to check.
+ * @returns The value.
+ */
+export function checkPageOption(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 1) throw new Error(`${name} must be a positive integer, got ${value}`);
+  return value;
+}
+
+/**
+ * Encode the position of a row as a cursor. The cursor holds the row's stored value of each ordering's
+ * field, so the next query can continue right after it.
+ *
+ * @param orderBy - The orderings of the query, ending with the primary key.
+ * @param row - The stored row.
+ * @returns The cursor.
+ */
+export function encodeCursor<T extends ModelAttributes>(orderBy: Ordering<T>[], row: T): string {
+  const data: CursorData = {
+    order: describeOrder(orderBy),
+    // dates are tagged, as JSON would turn them into strings
+    values: orderBy.map(({ field }) => {
+      const value = row[field];
+      return value instanceof Date ? { date: value.toISOString() } : value ?? null;
+    }),
+  };
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+/**
+ * Decode a cursor into the keyset position it encodes. Throws an `InvalidCursorError` if the cursor is
+ * malformed or was created for a query with different orderings.
+ *
+ * @param cursor - The cursor.
+ * @param orderBy - The orderings of the query, ending with the primary key.
+ * @returns The value of each ordering's field at the position.
+ */
+export function decodeCursor<T extends ModelAttributes>(cursor: string, orderBy: Ordering<T>[]): any[] {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    throw new InvalidCursorError(cursor, "it is malformed");
+  }
+  if (!data || !Array.isArray(data.order) || !Array.isArray(data.values) || data.values.length !== orderBy.length) {
+    throw new InvalidCursorError(cursor, "it is malformed");
+  }
+  if (data.order.join(",") !== describeOrder(orderBy).join(",")) {
+    throw new InvalidCursorError(cursor, "it was created for a different ordering");
+  }
+  return data.values.map((value) =>
+    value !== null && typeof value === "object" && typeof (value as any).date === "string" ? new Date((value as any).date) : value
+  );
+}
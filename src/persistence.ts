@@ -1,6 +1,8 @@
+import { defineFieldAccessors } from "./accessors";
 import { AdapterConfig } from "./adapter";
 import { Model } from "./model";
-import { FieldSpecs, GlobalSpec, ModelAttributes, PersistenceInfo } from "./types";
+import { defineRelationAccessors } from "./relations";
+import { FieldSpec, FieldSpecs, GlobalSpec, ModelAttributes, PersistenceInfo } from "./types";
 
 /**
  * Decorator to add persistence information to a model.
@@ -17,5 +19,19 @@ export function Persistence<T extends ModelAttributes>(
 ) {
   return function (target: any) {
     target.persistence = { adapter, fieldSpecs, globalSpec } as PersistenceInfo<Model<T>>;
+    const columnNames: Record<string, string> = {};
+    for (const field of Object.keys(fieldSpecs ?? {})) {
+      const name = (fieldSpecs as Record<string, FieldSpec>)[field]?.column?.name;
+      if (name) columnNames[field] = name;
+    }
+    if (Object.keys(columnNames).length && adapter.setColumnNames) {
+      adapter.setColumnNames(columnNames);
+    }
+    if (globalSpec?.relations) {
+      defineRelationAccessors(target, globalSpec.relations);
+    }
+    if (target.accessors) {
+      defineFieldAccessors(target.prototype, Object.keys(fieldSpecs ?? {}));
+    }
   }
 }
@@ -0,0 +1,322 @@
+import { Model } from "./model";
+import {
+  checkPageOption,
+  CursorPaginationOptions,
+  decodeCursor,
+  DEFAULT_PER_PAGE,
+  encodeCursor,
+  OffsetPage,
+  OffsetPaginationOptions,
+  Page,
+  PaginationOptions,
+} from "./pagination";
+import {
+  applyQuery,
+  Condition,
+  emptyQuery,
+  FieldOperators,
+  normalizeCondition,
+  Operator,
+  Ordering,
+  Query,
+  SortDirection,
+  toConditions,
+  WhereClause,
+} from "./query";
+import { preloadRelation, RelationNames } from "./relations";
+import { DeletedScope, deletedScopeCondition, getSoftDeleteField } from "./soft-delete";
+import { getContext } from "./transaction";
+import { ModelAttributes, ModelType, PersistenceInfo } from "./types";
+
+/**
+ * A chainable, immutable query against a model class. Each method returns a new builder; terminal
+ * methods (`all`, `first`, `count`, `exists`) run the query through the model's adapter. For models with
+ * soft delete, deleted models are excluded unless `withDeleted` or `onlyDeleted` is called.
+ *
+ * @param M - The model type.
+ * @param T - The model attributes type.
+ */
+export class QueryBuilder<M extends Model<any>, T extends ModelAttributes = ModelType<M>> {
+  constructor(
+    protected readonly modelClass: new (...args: any[]) => M,
+    protected readonly query: Query<T> = emptyQuery<T>(),
+    protected readonly includes: string[] = [],
+    protected readonly deleted: DeletedScope = "exclude"
+  ) {}
+
+  /**
+   * Add conditions to the query. All conditions, including those added by earlier calls, must hold.
+   *
+   * @param whereOrField - An object of conditions keyed on fields, or a single field name.
+   * @param operator - The operator to apply, if passing a field name.
+   * @param value - The value to compare against, if passing a field name.
+   * @returns A new query builder.
+   */
+  public where(where: WhereClause<T>): QueryBuilder<M, T>;
+  public where<K extends keyof T & string, O extends keyof FieldOperators<T[K]> & Operator>(
+    field: K,
+    operator: O,
+    value: FieldOperators<T[K]>[O]
+  ): QueryBuilder<M, T>;
+  public where(whereOrField: WhereClause<T> | (keyof T & string), operator?: Operator, value?: any): QueryBuilder<M, T> {
+    const conditions = typeof whereOrField === "string"
+      ? [normalizeCondition<T>({ field: whereOrField, operator: operator!, value })]
+      : toConditions(whereOrField);
+    return this.with({ where: [...this.query.where, ...conditions.map((condition) => this.encode(condition))] });
+  }
+
+  /**
+   * Sort the results by a field. Later calls add tie-breakers.
+   *
+   * @param field - The field to sort by.
+   * @param direction - The sort direction. Defaults to `"asc"`.
+   * @returns A new query builder.
+   */
+  public orderBy(field: keyof T & string, direction: SortDirection = "asc"): QueryBuilder<M, T> {
+    return this.with({ orderBy: [...this.query.orderBy, { field, direction }] });
+  }
+
+  /**
+   * Return at most `count` results.
+   *
+   * @param count - The maximum number of results.
+   * @returns A new query builder.
+   */
+  public limit(count: number): QueryBuilder<M, T> {
+    return this.with({ limit: count });
+  }
+
+  /**
+   * Skip the first `count` results.
+   *
+   * @param count - The number of results to skip.
+   * @returns A new query builder.
+   */
+  public offset(count: number): QueryBuilder<M, T> {
+    return this.with({ offset: count });
+  }
+
+  /**
+   * Eager load relations of the resulting models. Each relation is loaded for all results with a single
+   * query, and cached on the models' relation accessors.
+   *
+   * @param names - The names of the relations to load.
+   * @returns A new query builder.
+   */
+  public include(...names: RelationNames<M>[]): QueryBuilder<M, T> {
+    return new QueryBuilder<M, T>(this.modelClass, this.query, [...this.includes, ...names], this.deleted);
+  }
+
+  /**
+   * Include soft-deleted models in the results.
+   *
+   * @returns A new query builder.
+   */
+  public withDeleted(): QueryBuilder<M, T> {
+    return new QueryBuilder<M, T>(this.modelClass, this.query, this.includes, "include");
+  }
+
+  /**
+   * Return only soft-deleted models.
+   *
+   * @returns A new query builder.
+   */
+  public onlyDeleted(): QueryBuilder<M, T> {
+    return new QueryBuilder<M, T>(this.modelClass, this.query, this.includes, "only");
+  }
+
+  /**
+   * Get the structured query this builder represents, as passed to adapters.
+   *
+   * @returns The query.
+   */
+  public toQuery(): Query<T> {
+    return {
+      ...this.query,
+      where: this.scopedWhere(),
+      orderBy: this.query.orderBy.slice(),
+    };
+  }
+
+  /**
+   * Run the query.
+   *
+   * @returns A promise that resolves to the matching models.
+   */
+  public async all(): Promise<M[]> {
+    return (await this.load(this.toQuery())).models;
+  }
+
+  /**
+   * Run the query and return its first result.
+   *
+   * @returns A promise that resolves to the first matching model, or null if none match.
+   */
+  public async first(): Promise<M | null> {
+    const [model] = await this.limit(1).all();
+    return model ?? null;
+  }
+
+  /**
+   * Count the rows matching the query's conditions. Ordering, limit and offset are ignored.
+   *
+   * @returns A promise that resolves to the number of matching rows.
+   */
+  public async count(): Promise<number> {
+    const { adapter } = this.getPersistence();
+    const context = await getContext(adapter);
+    const query: Query<T> = { where: this.scopedWhere(), orderBy: [] };
+    if (adapter.count) return adapter.count(context, query);
+    const rows = adapter.select ? await adapter.select(context, query) : applyQuery(await adapter.all(context), query);
+    return rows.length;
+  }
+
+  /**
+   * Check whether any row matches the query's conditions.
+   *
+   * @returns A promise that resolves to true if at least one row matches.
+   */
+  public async exists(): Promise<boolean> {
+    return (await this.count()) > 0;
+  }
+
+  /**
+   * Run the query one page at a time. With a `page` number, pages are counted from the first result
+   * (offset pagination) and the page reports the total. Otherwise pages follow from the `after` or
+   * `before` cursor of a previous page (cursor pagination), so models inserted or deleted meanwhile
+   * don't shift later pages. The primary key is added as the last ordering to make the order total,
+   * and the builder's own limit and offset are ignored. Cursor pagination needs sort fields without
+   * null values on SQL adapters.
+   *
+   * @param options - The page number or cursor, and the page size.
+   * @returns A promise that resolves to the page.
+   */
+  public paginate(options: OffsetPaginationOptions): Promise<OffsetPage<M>>;
+  public paginate(options?: CursorPaginationOptions): Promise<Page<M>>;
+  public async paginate(options: PaginationOptions = {}): Promise<Page<M>> {
+    const perPage = checkPageOption("perPage", options.perPage ?? DEFAULT_PER_PAGE);
+    const orderBy = this.totalOrder();
+
+    if ("page" in options && options.page !== undefined) {
+      const page = checkPageOption("page", options.page);
+      const offset = (page - 1) * perPage;
+      const total = await this.count();
+      const { rows, models } = await this.load({ ...this.toQuery(), orderBy, limit: perPage, offset });
+      const hasMore = offset + rows.length < total;
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+      const result: OffsetPage<M> = {
+        models,
+        perPage,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(orderBy, last) : null,
+        previousCursor: page > 1 && first ? encodeCursor(orderBy, first) : null,
+        page,
+        total,
+        totalPages: Math.ceil(total / perPage),
+      };
+      return result;
+    }
+
+    const { after, before } = options as CursorPaginationOptions;
+    if (after && before) throw new Error("Pass either an after or a before cursor, not both");
+    // a page before a cursor is the page after it in reverse order
+    const backward = !!before;
+    const cursor = before || after;
+    const queryOrder: Ordering<T>[] = backward
+      ? orderBy.map(({ field, direction }) => ({ field, direction: direction === "asc" ? "desc" : "asc" }))
+      : orderBy;
+    const position = cursor ? decodeCursor(cursor, orderBy) : undefined;
+    const query: Query<T> = { ...this.toQuery(), orderBy: queryOrder, limit: perPage + 1, offset: undefined };
+    let rows = await this.loadRows(query, position);
+    const more = rows.length > perPage;
+    rows = rows.slice(0, perPage);
+    if (backward) rows.reverse();
+
+    const models = await this.hydrate(rows);
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const nextCursor = (backward || more) && last ? encodeCursor(orderBy, last) : null;
+    return {
+      models,
+      perPage,
+      hasMore: nextCursor !== null,
+      nextCursor,
+      previousCursor: (backward ? more : !!cursor) && first ? encodeCursor(orderBy, first) : null,
+    };
+  }
+
+  /**
+   * Get the query's orderings, ending with the primary key unless it is already ordered by.
+   */
+  protected totalOrder(): Ordering<T>[] {
+    const primaryKeyField = this.getPersistence().adapter.getPrimaryKeyField() as keyof T & string;
+    const orderBy = this.query.orderBy.slice();
+    if (!orderBy.some(({ field }) => field === primaryKeyField)) orderBy.push({ field: primaryKeyField, direction: "asc" });
+    return orderBy;
+  }
+
+  /**
+   * Retrieve the rows of a query, optionally only those sorting after a keyset position.
+   */
+  protected async loadRows(query: Query<T>, after?: any[]): Promise<T[]> {
+    const { adapter } = this.getPersistence();
+    const context = await getContext(adapter);
+    if (after) {
+      return adapter.selectAfter
+        ? adapter.selectAfter(context, query, after)
+        : applyQuery(await adapter.all(context), query, after);
+    }
+    return adapter.select ? adapter.select(context, query) : applyQuery(await adapter.all(context), query);
+  }
+
+  /**
+   * Turn rows into models and eager load the included relations.
+   */
+  protected async hydrate(rows: T[]): Promise<M[]> {
+    const context = await getContext(this.getPersistence().adapter);
+    const models: M[] = await (this.modelClass as any).hydrate(context, rows);
+    for (const name of this.includes) {
+      await preloadRelation(this.modelClass, models, name);
+    }
+    return models;
+  }
+
+  /**
+   * Run a query, returning both the stored rows and the models.
+   */
+  protected async load(query: Query<T>): Promise<{ rows: T[]; models: M[] }> {
+    const rows = await this.loadRows(query);
+    return { rows, models: await this.hydrate(rows) };
+  }
+
+  protected getPersistence(): PersistenceInfo<Model<T>> {
+    return (this.modelClass as unknown as typeof Model<T>).getPersistence();
+  }
+
+  protected with(changes: Partial<Query<T>>): QueryBuilder<M, T> {
+    return new QueryBuilder<M, T>(this.modelClass, { ...this.query, ...changes }, this.includes, this.deleted);
+  }
+
+  /**
+   * Get the query's conditions, with the soft delete condition for the deleted scope if needed.
+   */
+  protected scopedWhere(): Condition<T>[] {
+    const field = getSoftDeleteField(this.getPersistence().globalSpec);
+    const condition = field ? deletedScopeCondition<T>(this.deleted, field) : undefined;
+    return condition ? [...this.query.where, condition] : this.query.where.slice();
+  }
+
+  /**
+   * Encode the values of a condition with the field's encoder, so they compare against stored values.
+   */
+  protected encode(condition: Condition<T>): Condition<T> {
+    const encoder = this.getPersistence().fieldSpecs?.[condition.field]?.encoder;
+    const { operator, value } = condition;
+    if (!encoder || operator === "isNull" || operator === "like") return condition;
+    if (operator === "in" || operator === "notIn") {
+      return { ...condition, value: (value as any[]).map((item) => encoder.encode(item)) };
+    }
+    return { ...condition, value: encoder.encode(value) };
+  }
+}
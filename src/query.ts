@@ -0,0 +1,219 @@
+import { ModelAttributes } from "./types";
+
+/**
+ * The comparison operators understood by structured queries.
+ */
+export type Operator = "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "notIn" | "like" | "isNull";
+
+/**
+ * The operators that can be applied to a field whose value has type `V`. `like` is only available on
+ * string fields.
+ */
+export type FieldOperators<V> = {
+  eq?: V | null;
+  ne?: V | null;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+  notIn?: V[];
+  isNull?: boolean;
+} & (NonNullable<V> extends string ? { like?: string } : {});
+
+/**
+ * An object describing conditions on the fields of `T`. Each field takes either a value to compare for
+ * equality (`null` meaning `IS NULL`) or an object of operators, all of which must hold.
+ */
+export type WhereClause<T extends ModelAttributes> = {
+  [K in keyof T]?: T[K] | null | FieldOperators<T[K]>;
+}
+
+/**
+ * A single condition of a structured query. `value` is an array for `in` and `notIn`, and a boolean
+ * for `isNull` (`false` meaning `IS NOT NULL`).
+ */
+export interface Condition<T extends ModelAttributes> {
+  field: keyof T & string;
+  operator: Operator;
+  value?: any;
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface Ordering<T extends ModelAttributes> {
+  field: keyof T & string;
+  direction: SortDirection;
+}
+
+/**
+ * A structured query passed to adapters. All conditions must hold; rows are sorted by each ordering in
+ * turn, then `offset` rows are skipped and at most `limit` rows returned.
+ */
+export interface Query<T extends ModelAttributes> {
+  where: Condition<T>[];
+  orderBy: Ordering<T>[];
+  limit?: number;
+  offset?: number;
+}
+
+const operators: Operator[] = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "notIn", "like", "isNull"];
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  if (Object.getPrototypeOf(value) !== Object.prototype) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => operators.indexOf(key as Operator) !== -1);
+}
+
+/**
+ * Create an empty query, matching every row.
+ *
+ * @returns The query.
+ */
+export function emptyQuery<T extends ModelAttributes>(): Query<T> {
+  return { where: [], orderBy: [] };
+}
+
+/**
+ * Convert a `WhereClause` (or an exact-match object) into a list of conditions. Keys whose value is
+ * `undefined` are ignored.
+ *
+ * @param where - The clause to convert.
+ * @returns The conditions.
+ */
+export function toConditions<T extends ModelAttributes>(where: WhereClause<T> | Partial<T>): Condition<T>[] {
+  const conditions: Condition<T>[] = [];
+  for (const field of Object.keys(where) as (keyof T & string)[]) {
+    const value = (where as Record<string, unknown>)[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      conditions.push({ field, operator: "isNull", value: true });
+    } else if (isOperatorObject(value)) {
+      for (const operator of Object.keys(value) as Operator[]) {
+        if (value[operator] === undefined) continue;
+        conditions.push(normalizeCondition({ field, operator, value: value[operator] }));
+      }
+    } else {
+      conditions.push({ field, operator: "eq", value });
+    }
+  }
+  return conditions;
+}
+
+/**
+ * Rewrite equality against `null` as the equivalent `isNull` condition.
+ *
+ * @param condition - The condition to normalize.
+ * @returns The normalized condition.
+ */
+export function normalizeCondition<T extends ModelAttributes>(condition: Condition<T>): Condition<T> {
+  const { field, operator, value } = condition;
+  if (operator === "eq" && value === null) return { field, operator: "isNull", value: true };
+  if (operator === "ne" && value === null) return { field, operator: "isNull", value: false };
+  if (operator === "isNull") return { field, operator, value: value !== false };
+  return condition;
+}
+
+function compare(a: any, b: any): number {
+  if (a instanceof Date && b instanceof Date) return compare(a.getTime(), b.getTime());
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (const char of pattern) {
+    if (char === "%") source += "[\\s\\S]*";
+    else if (char === "_") source += "[\\s\\S]";
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Check whether a row satisfies a condition, following SQL semantics: comparisons against a missing or
+ * null value never hold, and `like` is case-insensitive as in SQLite.
+ *
+ * @param row - The row to check.
+ * @param condition - The condition to check.
+ * @returns True if the condition holds.
+ */
+export function matchesCondition<T extends ModelAttributes>(row: T, condition: Condition<T>): boolean {
+  const actual = row[condition.field];
+  const { operator, value } = condition;
+  if (operator === "isNull") return (actual === null || actual === undefined) === (value !== false);
+  if (actual === null || actual === undefined) return false;
+
+  switch (operator) {
+    case "eq": return compare(actual, value) === 0;
+    case "ne": return compare(actual, value) !== 0;
+    case "gt": return compare(actual, value) > 0;
+    case "gte": return compare(actual, value) >= 0;
+    case "lt": return compare(actual, value) < 0;
+    case "lte": return compare(actual, value) <= 0;
+    case "in": return (value as any[]).some((candidate) => compare(actual, candidate) === 0);
+    case "notIn": return !(value as any[]).some((candidate) => compare(actual, candidate) === 0);
+    case "like": return likeToRegExp(String(value)).test(String(actual));
+  }
+  return false;
+}
+
+// compares sort values in ascending order, with missing and null values first
+function compareSortValues(x: any, y: any): number {
+  const xNull = x === null || x === undefined;
+  const yNull = y === null || y === undefined;
+  return xNull || yNull ? Number(yNull) - Number(xNull) : compare(x, y);
+}
+
+/**
+ * Sort rows by a list of orderings. Missing and null values sort first, as in SQLite.
+ *
+ * @param rows - The rows to sort. The array is not modified.
+ * @param orderBy - The orderings to apply.
+ * @returns The sorted rows.
+ */
+export function sortRows<T extends ModelAttributes>(rows: T[], orderBy: Ordering<T>[]): T[] {
+  return rows.slice().sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      let result = compareSortValues(a[field], b[field]);
+      if (direction === "desc") result = -result;
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Check whether a row sorts strictly after a keyset position.
+ *
+ * @param row - The row to check.
+ * @param orderBy - The orderings to apply.
+ * @param after - The value of each ordering's field at the position, in the order of `orderBy`.
+ * @returns True if the row sorts after the position.
+ */
+export function sortsAfter<T extends ModelAttributes>(row: T, orderBy: Ordering<T>[], after: any[]): boolean {
+  for (let i = 0; i < orderBy.length; i++) {
+    const { field, direction } = orderBy[i]!;
+    let result = compareSortValues(row[field], after[i]);
+    if (direction === "desc") result = -result;
+    if (result !== 0) return result > 0;
+  }
+  return false;
+}
+
+/**
+ * Evaluate a structured query against rows in memory.
+ *
+ * @param rows - The rows to query.
+ * @param query - The query to evaluate.
+ * @param after - Optional. A keyset position, as for `sortsAfter`; only rows sorting after it match.
+ * @returns The matching rows, sorted and paged.
+ */
+export function applyQuery<T extends ModelAttributes>(rows: T[], query: Query<T>, after?: any[]): T[] {
+  let result = rows.filter((row) => query.where.every((condition) => matchesCondition(row, condition)));
+  if (after) result = result.filter((row) => sortsAfter(row, query.orderBy, after));
+  if (query.orderBy.length) result = sortRows(result, query.orderBy);
+  const start = query.offset ?? 0;
+  return result.slice(start, query.limit === undefined ? undefined : start + query.limit);
+}
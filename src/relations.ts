@@ -0,0 +1,516 @@
+import { Model } from "./model";
+import { ModelAttributes, ModelClass } from "./types";
+
+export type RelationKind = "belongsTo" | "hasMany" | "hasOne";
+
+export interface RelationOptions {
+  /**
+   * The field holding the foreign key. For `belongsTo` it is on the declaring model and defaults to
+   * the relation name followed by `Id` (e.g. `authorId`). For `hasMany` and `hasOne` it is on the
+   * related model and defaults to the declaring class name, first letter lowercased, followed by `Id`
+   * (e.g. `postId`).
+   */
+  foreignKey?: string;
+  /**
+   * The field the foreign key refers to. For `belongsTo` it is on the related model, for `hasMany` and
+   * `hasOne` on the declaring model. Defaults to the primary key field.
+   */
+  primaryKey?: string;
+}
+
+/**
+ * A relation declared in the `relations` option of a `GlobalSpec`.
+ *
+ * @param M - The related model type.
+ */
+export interface RelationDefinition<M extends Model<any> = Model<any>> extends RelationOptions {
+  kind: RelationKind;
+  target: () => ModelClass<M>;
+}
+
+export type RelationDefinitions = Record<string, RelationDefinition>;
+
+/**
+ * Declare that the model holds a foreign key to a single related model.
+ *
+ * @param target - A function returning the related model class, so classes can refer to each other.
+ * @param options - The foreign key options.
+ * @returns The relation definition.
+ */
+export function belongsTo<M extends Model<any>>(target: () => ModelClass<M>, options: RelationOptions = {}): RelationDefinition<M> {
+  return { kind: "belongsTo", target, ...options };
+}
+
+/**
+ * Declare that many related models hold a foreign key to the model.
+ *
+ * @param target - A function returning the related model class, so classes can refer to each other.
+ * @param options - The foreign key options.
+ * @returns The relation definition.
+ */
+export function hasMany<M extends Model<any>>(target: () => ModelClass<M>, options: RelationOptions = {}): RelationDefinition<M> {
+  return { kind: "hasMany", target, ...options };
+}
+
+/**
+ * Declare that a single related model holds a foreign key to the model.
+ *
+ * @param target - A function returning the related model class, so classes can refer to each other.
+ * @param options - The foreign key options.
+ * @returns The relation definition.
+ */
+export function hasOne<M extends Model<any>>(target: () => ModelClass<M>, options: RelationOptions = {}): RelationDefinition<M> {
+  return { kind: "hasOne", target, ...options };
+}
+
+function primaryKeyFieldOf(modelClass: ModelClass<any>): string {
+  return (modelClass as unknown as typeof Model).getPersistence().adapter.getPrimaryKeyField();
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+/**
+ * The resolved keys of a relation: `foreignKey` is the field holding the foreign key and
+ * `referencedKey` the field it refers to.
+ */
+export interface RelationKeys {
+  foreignKey: string;
+  referencedKey: string;
+}
+
+/**
+ * Resolve the foreign key and referenced key fields of a relation, applying the defaults.
+ *
+ * @param ownerClass - The class that declares the relation.
+ * @param name - The name of the relation.
+ * @param definition - The relation definition.
+ * @returns The resolved keys.
+ */
+export function resolveRelationKeys(ownerClass: ModelClass<any>, name: string, definition: RelationDefinition): RelationKeys {
+  if (definition.kind === "belongsTo") {
+    return {
+      foreignKey: definition.foreignKey ?? `${name}Id`,
+      referencedKey: definition.primaryKey ?? primaryKeyFieldOf(definition.target()),
+    };
+  }
+  const className = ownerClass.name;
+  return {
+    foreignKey: definition.foreignKey ?? `${className.charAt(0).toLowerCase()}${className.slice(1)}Id`,
+    referencedKey: definition.primaryKey ?? primaryKeyFieldOf(ownerClass),
+  };
+}
+
+/**
+ * Common behaviour of relation accessors. An accessor is created once per model instance and relation,
+ * and caches the related models once loaded or assigned.
+ */
+export abstract class Relation<M extends Model<any>> {
+  protected keys: RelationKeys;
+
+  constructor(
+    protected readonly owner: Model<any>,
+    public readonly name: string,
+    public readonly definition: RelationDefinition<M>
+  ) {
+    this.keys = resolveRelationKeys(owner.constructor as ModelClass<any>, name, definition);
+  }
+
+  /**
+   * Whether the related models have been loaded or assigned.
+   */
+  public abstract get loaded(): boolean;
+
+  /**
+   * Get the related models if they have been loaded or assigned.
+   *
+   * @returns The related model or models, null if there is none, or undefined if not loaded.
+   */
+  public abstract get(): M | M[] | null | undefined;
+
+  /**
+   * Save related models that were assigned or built, before the owner is written.
+   */
+  public async beforeOwnerSave(): Promise<void> {}
+
+  /**
+   * Save related models that were assigned or built, after the owner is written.
+   */
+  public async afterOwnerSave(): Promise<void> {}
+
+  protected get targetClass(): ModelClass<M> {
+    return this.definition.target();
+  }
+
+  protected get ownerKey(): any {
+    return this.owner.get(this.keys.referencedKey);
+  }
+
+  protected attach(model: M) {
+    const ownerKey = this.ownerKey;
+    if (!isMissing(ownerKey) && model.get(this.keys.foreignKey) !== ownerKey) {
+      model.set(this.keys.foreignKey, ownerKey);
+    }
+  }
+}
+
+/**
+ * Accessor for a `belongsTo` relation.
+ */
+export class BelongsTo<M extends Model<any>> extends Relation<M> {
+  protected value: M | null | undefined = undefined;
+  protected assigned = false;
+
+  public get loaded(): boolean {
+    return this.value !== undefined;
+  }
+
+  /**
+   * Load the related model through its class's adapter, replacing any cached value.
+   *
+   * @returns A promise that resolves to the related model, or null if there is none.
+   */
+  public async load(): Promise<M | null> {
+    const key = this.owner.get(this.keys.foreignKey);
+    const target = this.targetClass as unknown as typeof Model<ModelAttributes>;
+    let model: M | null = null;
+    if (!isMissing(key)) {
+      model = this.keys.referencedKey === primaryKeyFieldOf(this.targetClass)
+        ? await target.get(key) as M | null
+        : await target.getBy({ [this.keys.referencedKey]: key }) as M | null;
+    }
+    this.value = model;
+    this.assigned = false;
+    return model;
+  }
+
+  /**
+   * Get the related model if it has been loaded or assigned.
+   *
+   * @returns The related model, null if there is none, or undefined if not loaded.
+   */
+  public get(): M | null | undefined {
+    return this.value;
+  }
+
+  /**
+   * Assign the related model. The owner's foreign key is set immediately if the related model has a
+   * key, and otherwise when the owner is saved, after saving the related model.
+   *
+   * @param model - The related model, or null to clear the relation.
+   */
+  public set(model: M | null) {
+    this.value = model;
+    this.assigned = true;
+    this.assignForeignKey();
+  }
+
+  /**
+   * Create a new related model and assign it. It is saved when the owner is saved.
+   *
+   * @param attributes - The attributes of the new model.
+   * @returns The new model.
+   */
+  public build(attributes: ModelAttributes): M {
+    const model = new this.targetClass(attributes);
+    this.set(model);
+    return model;
+  }
+
+  public override async beforeOwnerSave() {
+    if (!this.assigned) return;
+    if (this.value && !this.value.persisted) await this.value.save();
+    this.assignForeignKey();
+    this.assigned = false;
+  }
+
+  /**
+   * Cache a model loaded elsewhere, e.g. by eager loading.
+   */
+  public setLoaded(model: M | null) {
+    this.value = model;
+    this.assigned = false;
+  }
+
+  protected assignForeignKey() {
+    const key = this.value ? this.value.get(this.keys.referencedKey) : null;
+    if (this.value && isMissing(key)) return;
+    if (this.owner.get(this.keys.foreignKey) !== key) this.owner.set(this.keys.foreignKey, key);
+  }
+}
+
+/**
+ * Accessor for a `hasMany` relation.
+ */
+export class HasMany<M extends Model<any>> extends Relation<M> {
+  protected value: M[] | undefined = undefined;
+  protected pending: M[] = [];
+
+  public get loaded(): boolean {
+    return this.value !== undefined;
+  }
+
+  /**
+   * Load the related models through their class's adapter, replacing any cached value. Models
+   * added or built but not yet saved are kept.
+   *
+   * @returns A promise that resolves to the related models.
+   */
+  public async load(): Promise<M[]> {
+    const key = this.ownerKey;
+    const target = this.targetClass as unknown as typeof Model<ModelAttributes>;
+    const models = isMissing(key) ? [] : await target.all({ [this.keys.foreignKey]: key }) as M[];
+    this.value = [...models, ...this.pending];
+    return this.value;
+  }
+
+  /**
+   * Get the related models if they have been loaded.
+   *
+   * @returns The related models, or undefined if not loaded.
+   */
+  public get(): M[] | undefined {
+    return this.value;
+  }
+
+  /**
+   * Add a related model. Its foreign key is set and it is saved when the owner is saved.
+   *
+   * @param model - The model to add.
+   */
+  public add(model: M) {
+    this.attach(model);
+    this.pending.push(model);
+    if (this.value) this.value.push(model);
+  }
+
+  /**
+   * Create a new related model and add it. It is saved when the owner is saved.
+   *
+   * @param attributes - The attributes of the new model.
+   * @returns The new model.
+   */
+  public build(attributes: ModelAttributes): M {
+    const model = new this.targetClass(attributes);
+    this.add(model);
+    return model;
+  }
+
+  public override async afterOwnerSave() {
+    const pending = this.pending;
+    this.pending = [];
+    for (const model of pending) {
+      this.attach(model);
+      await model.save();
+    }
+  }
+
+  /**
+   * Cache models loaded elsewhere, e.g. by eager loading.
+   */
+  public setLoaded(models: M[]) {
+    this.value = [...models, ...this.pending];
+  }
+}
+
+/**
+ * Accessor for a `hasOne` relation.
+ */
+export class HasOne<M extends Model<any>> extends Relation<M> {
+  protected value: M | null | undefined = undefined;
+  protected pending: M | null = null;
+
+  public get loaded(): boolean {
+    return this.value !== undefined;
+  }
+
+  /**
+   * Load the related model through its class's adapter, replacing any cached value.
+   *
+   * @returns A promise that resolves to the related model, or null if there is none.
+   */
+  public async load(): Promise<M | null> {
+    const key = this.ownerKey;
+    const target = this.targetClass as unknown as typeof Model<ModelAttributes>;
+    const model = isMissing(key) ? null : await target.getBy({ [this.keys.foreignKey]: key }) as M | null;
+    this.value = this.pending ?? model;
+    return this.value;
+  }
+
+  /**
+   * Get the related model if it has been loaded or assigned.
+   *
+   * @returns The related model, null if there is none, or undefined if not loaded.
+   */
+  public get(): M | null | undefined {
+    return this.value;
+  }
+
+  /**
+   * Assign the related model. Its foreign key is set and it is saved when the owner is saved.
+   *
+   * @param model - The related model.
+   */
+  public set(model: M) {
+    this.attach(model);
+    this.pending = model;
+    this.value = model;
+  }
+
+  /**
+   * Create a new related model and assign it. It is saved when the owner is saved.
+   *
+   * @param attributes - The attributes of the new model.
+   * @returns The new model.
+   */
+  public build(attributes: ModelAttributes): M {
+    const model = new this.targetClass(attributes);
+    this.set(model);
+    return model;
+  }
+
+  public override async afterOwnerSave() {
+    const model = this.pending;
+    this.pending = null;
+    if (!model) return;
+    this.attach(model);
+    await model.save();
+  }
+
+  /**
+   * Cache a model loaded elsewhere, e.g. by eager loading.
+   */
+  public setLoaded(model: M | null) {
+    this.value = this.pending ?? model;
+  }
+}
+
+const accessors = new WeakMap<Model<any>, Map<string, Relation<any>>>();
+
+/**
+ * Get the accessor for a relation of a model instance, creating it on first use.
+ *
+ * @param owner - The model instance.
+ * @param name - The name of the relation.
+ * @returns The relation accessor.
+ */
+export function getRelation<R extends Relation<any> = Relation<any>>(owner: Model<any>, name: string): R {
+  let relations = accessors.get(owner);
+  if (!relations) {
+    relations = new Map();
+    accessors.set(owner, relations);
+  }
+  let relation = relations.get(name);
+  if (!relation) {
+    const definition = getRelationDefinitions(owner.constructor as ModelClass<any>)[name];
+    if (!definition) throw new Error(`Unknown relation: ${name}`);
+    const Accessor = definition.kind === "belongsTo" ? BelongsTo : definition.kind === "hasMany" ? HasMany : HasOne;
+    relation = new Accessor(owner, name, definition);
+    relations.set(name, relation);
+  }
+  return relation as R;
+}
+
+/**
+ * Get the relations declared for a model class.
+ *
+ * @param modelClass - The model class.
+ * @returns The relation definitions keyed by name.
+ */
+export function getRelationDefinitions(modelClass: ModelClass<any>): RelationDefinitions {
+  return (modelClass as unknown as typeof Model).getPersistence()?.globalSpec?.relations ?? {};
+}
+
+/**
+ * Define a getter on a model class's prototype for each of its relations, returning the instance's
+ * accessor.
+ *
+ * @param modelClass - The model class.
+ * @param relations - The relation definitions keyed by name.
+ */
+export function defineRelationAccessors(modelClass: ModelClass<any>, relations: RelationDefinitions) {
+  for (const name of Object.keys(relations)) {
+    Object.defineProperty(modelClass.prototype, name, {
+      configurable: true,
+      get(this: Model<any>) {
+        return getRelation(this, name);
+      },
+    });
+  }
+}
+
+/**
+ * Run the `beforeOwnerSave` or `afterOwnerSave` step of every relation accessor a model has used.
+ *
+ * @param owner - The model being saved.
+ * @param step - The step to run.
+ */
+export async function saveRelations(owner: Model<any>, step: "beforeOwnerSave" | "afterOwnerSave") {
+  const relations = accessors.get(owner);
+  if (!relations) return;
+  for (const relation of Array.from(relations.values())) {
+    await relation[step]();
+  }
+}
+
+/**
+ * The names of the relation accessors declared on a model type.
+ */
+export type RelationNames<M> = {
+  [K in keyof M]: M[K] extends Relation<any> ? K : never;
+}[keyof M] & string;
+
+function groupBy<M extends Model<any>>(models: M[], field: string): Map<any, M[]> {
+  const groups = new Map<any, M[]>();
+  for (const model of models) {
+    const key = model.get(field);
+    const group = groups.get(key);
+    if (group) group.push(model);
+    else groups.set(key, [model]);
+  }
+  return groups;
+}
+
+function uniqueKeys(models: Model<any>[], field: string): any[] {
+  const keys: any[] = [];
+  const seen = new Set<any>();
+  for (const model of models) {
+    const key = model.get(field);
+    if (isMissing(key) || seen.has(key)) continue;
+    seen.add(key);
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Load a relation for many models at once, with a single `in` query against the related class, and
+ * cache the results on each model's accessor. Related models go through the related class's
+ * `postLoad` hook as usual.
+ *
+ * @param modelClass - The class of the models.
+ * @param models - The models to load the relation for.
+ * @param name - The name of the relation.
+ */
+export async function preloadRelation(modelClass: ModelClass<any>, models: Model<any>[], name: string) {
+  const definition = getRelationDefinitions(modelClass)[name];
+  if (!definition) throw new Error(`Unknown relation: ${name}`);
+  if (models.length === 0) return;
+
+  const { foreignKey, referencedKey } = resolveRelationKeys(modelClass, name, definition);
+  const target = definition.target() as unknown as typeof Model<ModelAttributes>;
+  const ownKey = definition.kind === "belongsTo" ? foreignKey : referencedKey;
+  const targetKey = definition.kind === "belongsTo" ? referencedKey : foreignKey;
+
+  const keys = uniqueKeys(models, ownKey);
+  const related = keys.length ? await target.where({ [targetKey]: { in: keys } }).all() : [];
+  const groups = groupBy(related, targetKey);
+
+  for (const model of models) {
+    const group = groups.get(model.get(ownKey)) ?? [];
+    const relation = getRelation(model, name);
+    if (relation instanceof HasMany) relation.setLoaded(group);
+    else (relation as BelongsTo<any> | HasOne<any>).setLoaded(group[0] ?? null);
+  }
+}
@@ -0,0 +1,148 @@
+import { getVersionField } from "./locking";
+import { Model } from "./model";
+import { getSoftDeleteField } from "./soft-delete";
+import { getTimestampConfig } from "./timestamps";
+import { getContext } from "./transaction";
+import { ColumnDefault, ColumnType, FieldSpec, FieldType, ModelClass, PersistenceInfo } from "./types";
+
+/**
+ * A column of a model's table, resolved from its field spec. Adapters turn it into SQL, naming the
+ * column with their column naming unless `name` is set.
+ */
+export interface ColumnSchema {
+  field: string;
+  name?: string;
+  /** The declared type. Adapters pick one when it is missing, e.g. for the primary key. */
+  type?: ColumnType;
+  nullable: boolean;
+  default?: ColumnDefault;
+  unique: boolean;
+  index?: boolean | string;
+  primaryKey: boolean;
+}
+
+/**
+ * The declared schema of a model's table.
+ */
+export interface TableSchema {
+  columns: ColumnSchema[];
+}
+
+/**
+ * The ways a live table can differ from its declared schema.
+ */
+export type SchemaMismatchKind =
+  | "missing-table"
+  | "missing-column"
+  | "extra-column"
+  | "type"
+  | "nullable"
+  | "default"
+  | "primary-key"
+  | "unique"
+  | "index";
+
+/**
+ * A difference between the declared schema of a table and the live database.
+ */
+export interface SchemaMismatch {
+  kind: SchemaMismatchKind;
+  /** The column that differs, if the mismatch is about a column. */
+  column?: string;
+  /** The declared value. */
+  expected?: string;
+  /** The value found in the database. */
+  actual?: string;
+  message: string;
+}
+
+const fieldColumnTypes: Record<FieldType, ColumnType> = {
+  string: "text",
+  number: "real",
+  integer: "integer",
+  boolean: "boolean",
+  date: "datetime",
+  object: "json",
+  array: "json",
+};
+
+function getPersistenceInfo(modelClass: ModelClass<Model<any>>): PersistenceInfo<Model<any>> {
+  return (modelClass as unknown as typeof Model).getPersistence();
+}
+
+/**
+ * Resolve the table schema of a model class. Every field with a field spec gets a column, except
+ * fields that are not persisted, as do the primary key and the fields of timestamps, soft delete and
+ * optimistic locking.
+ *
+ * @param modelClass - The model class.
+ * @returns The table schema, with the primary key first.
+ */
+export function getTableSchema(modelClass: ModelClass<Model<any>>): TableSchema {
+  const { adapter, fieldSpecs = {}, globalSpec } = getPersistenceInfo(modelClass);
+  const primaryKeyField = adapter.getPrimaryKeyField();
+
+  // fields managed by the model, with the column they get unless their spec says otherwise
+  const managed: Record<string, Partial<ColumnSchema>> = {};
+  const timestamps = getTimestampConfig(globalSpec);
+  if (timestamps?.createdAt) managed[timestamps.createdAt] = { type: "datetime" };
+  if (timestamps?.updatedAt) managed[timestamps.updatedAt] = { type: "datetime" };
+  const versionField = getVersionField(globalSpec);
+  if (versionField) managed[versionField] = { type: "integer", nullable: false, default: 0 };
+  const softDeleteField = getSoftDeleteField(globalSpec);
+  if (softDeleteField) managed[softDeleteField] = { type: "datetime" };
+
+  const fields = [primaryKeyField];
+  for (const field of [...Object.keys(fieldSpecs), ...Object.keys(managed)]) {
+    if (fields.indexOf(field) === -1 && (fieldSpecs as Record<string, FieldSpec>)[field]?.persist !== false) {
+      fields.push(field);
+    }
+  }
+
+  return {
+    columns: fields.map((field) => {
+      const spec: FieldSpec = (fieldSpecs as Record<string, FieldSpec>)[field] ?? {};
+      const column = spec.column ?? {};
+      const defaults = managed[field] ?? {};
+      const primaryKey = field === primaryKeyField;
+      return {
+        field,
+        name: column.name,
+        type: column.type ?? (spec.type ? fieldColumnTypes[spec.type] : defaults.type),
+        nullable: primaryKey ? false : column.nullable ?? defaults.nullable ?? !spec.required,
+        default: column.default !== undefined ? column.default : defaults.default,
+        unique: column.unique ?? false,
+        index: column.index,
+        primaryKey,
+      };
+    }),
+  };
+}
+
+/**
+ * Generate the statements that create the table and indexes of a model class.
+ *
+ * @param modelClass - The model class.
+ * @returns The SQL statements, in order.
+ */
+export function generateSchemaSql(modelClass: ModelClass<Model<any>>): string[] {
+  const { adapter } = getPersistenceInfo(modelClass);
+  if (!adapter.createTableSql) {
+    throw new Error(`The adapter of ${modelClass.name} does not support schema generation`);
+  }
+  return adapter.createTableSql(getTableSchema(modelClass));
+}
+
+/**
+ * Compare the declared schema of a model class with its table in the database.
+ *
+ * @param modelClass - The model class.
+ * @returns A promise that resolves to the mismatches found, empty if the table matches.
+ */
+export async function checkSchema(modelClass: ModelClass<Model<any>>): Promise<SchemaMismatch[]> {
+  const { adapter } = getPersistenceInfo(modelClass);
+  if (!adapter.checkTable) {
+    throw new Error(`The adapter of ${modelClass.name} does not support schema checks`);
+  }
+  return adapter.checkTable(await getContext(adapter), getTableSchema(modelClass));
+}
@@ -0,0 +1,103 @@
+import { Model } from "./model";
+import { BelongsTo, getRelation, HasMany, HasOne, RelationNames } from "./relations";
+import { ModelAttributes, PersistenceInfo } from "./types";
+
+/**
+ * Computed attributes to add to a serialized model, keyed by name.
+ */
+export type Virtuals<M> = Record<string, (model: M) => unknown>;
+
+/**
+ * The values of computed attributes.
+ */
+export type VirtualValues<V> = { [P in keyof V]: V[P] extends (...args: any[]) => infer R ? R : never };
+
+/**
+ * The hidden fields of a model, as its class declares them with `declare hiddenFields: "a" | "b"`.
+ * `toObject` and `toJSON` leave them out of their return types. The declaration only has a type; the
+ * fields are hidden by their `hidden` spec.
+ */
+export type HiddenFields<M> = M extends { hiddenFields: infer K extends string } ? K : never;
+
+/**
+ * The output of a model's `toJSON`.
+ */
+export type SerializedModel<M> = M extends { toJSON(): infer S } ? S : never;
+
+/**
+ * The serialized form of a relation accessor: a list for `hasMany`, and a model or null otherwise.
+ */
+export type SerializedRelation<R> =
+  R extends HasMany<infer M> ? SerializedModel<M>[] :
+  R extends BelongsTo<infer M> | HasOne<infer M> ? SerializedModel<M> | null :
+  never;
+
+/**
+ * Serialized relations, keyed by name. Relations that aren't loaded are left out, so each is optional.
+ */
+export type SerializedRelations<M, I extends keyof M> = { [P in I]?: SerializedRelation<M[P]> };
+
+/**
+ * Options of `toObject` that only keep the given fields. Picked fields are kept even if hidden.
+ */
+export interface PickOptions<M, K, I, V> {
+  pick: K[];
+  /** Loaded relations to serialize with their `toJSON`. */
+  include?: I[];
+  /** Computed attributes to add, called with the model. */
+  virtuals?: V & Virtuals<M>;
+}
+
+/**
+ * Options of `toObject` that leave out the given fields, in addition to hidden fields.
+ */
+export interface OmitOptions<M, K, I, V> {
+  omit?: K[];
+  /** Loaded relations to serialize with their `toJSON`. */
+  include?: I[];
+  /** Computed attributes to add, called with the model. */
+  virtuals?: V & Virtuals<M>;
+}
+
+/**
+ * The options of `toObject`, without their type parameters.
+ */
+export type SerializeOptions<M extends Model<any>> =
+  | PickOptions<M, string, RelationNames<M>, Virtuals<M>>
+  | OmitOptions<M, string, RelationNames<M>, Virtuals<M>>;
+
+/**
+ * Convert a model to a plain object of its fields. Fields whose spec is `hidden` are left out unless
+ * picked, loaded relations in `include` are converted with their own `toJSON`, and virtuals are called
+ * with the model.
+ *
+ * @param model - The model to convert.
+ * @param options - The fields, relations and computed attributes to include.
+ * @returns A new object, which doesn't share the model's internal state.
+ */
+export function serializeModel<M extends Model<any>>(model: M, options: SerializeOptions<M> = {}): Record<string, unknown> {
+  const persistence = (model.constructor as unknown as typeof Model).getPersistence() as PersistenceInfo<M> | undefined;
+  const fieldSpecs: Record<string, { hidden?: boolean } | undefined> = persistence?.fieldSpecs ?? {};
+  const attributes: ModelAttributes = model.getAttributes();
+  const omitted = "omit" in options ? options.omit ?? [] : [];
+  const fields = "pick" in options
+    ? options.pick
+    : Object.keys(attributes).filter((field) => !fieldSpecs[field]?.hidden && omitted.indexOf(field) === -1);
+
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    result[field] = attributes[field];
+  }
+  for (const name of options.include ?? []) {
+    const related = getRelation(model, name).get();
+    if (related === undefined) continue;
+    result[name] = Array.isArray(related)
+      ? related.map((relatedModel) => relatedModel.toJSON())
+      : related && related.toJSON();
+  }
+  const virtuals: Virtuals<M> = options.virtuals ?? {};
+  for (const name of Object.keys(virtuals)) {
+    result[name] = virtuals[name]!(model);
+  }
+  return result;
+}
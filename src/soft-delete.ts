@@ -0,0 +1,55 @@
+import { Condition } from "./query";
+import { GlobalSpec, ModelAttributes } from "./types";
+
+/**
+ * Which rows a query returns for a model with soft delete: those not deleted (the default), all of
+ * them, or only deleted ones.
+ */
+export type DeletedScope = "exclude" | "include" | "only";
+
+/**
+ * Get the field that holds the deletion time of soft-deleted models.
+ *
+ * @param globalSpec - The global spec of the model class.
+ * @returns The field name, or undefined if soft delete is not enabled.
+ */
+export function getSoftDeleteField(globalSpec?: GlobalSpec<any>): string | undefined {
+  const option = globalSpec?.softDelete;
+  if (!option) return undefined;
+  return option === true ? "deletedAt" : option.field ?? "deletedAt";
+}
+
+/**
+ * Check whether a row or model's data is soft-deleted.
+ *
+ * @param data - The row or data.
+ * @param field - The field holding the deletion time.
+ * @returns True if the field is set.
+ */
+export function isSoftDeleted(data: ModelAttributes, field: string): boolean {
+  return data[field] !== null && data[field] !== undefined;
+}
+
+/**
+ * Restrict a match object to rows that are not soft-deleted, unless it already matches on the field.
+ *
+ * @param match - The match object, if any.
+ * @param field - The field holding the deletion time.
+ * @returns The restricted match object.
+ */
+export function excludeDeleted<T extends ModelAttributes>(match: Partial<T> | undefined, field: string): Partial<T> {
+  if (match && field in match) return match;
+  return { ...match, [field]: null } as Partial<T>;
+}
+
+/**
+ * Get the condition that selects rows in a deleted scope.
+ *
+ * @param scope - The deleted scope.
+ * @param field - The field holding the deletion time.
+ * @returns The condition, or undefined if all rows are selected.
+ */
+export function deletedScopeCondition<T extends ModelAttributes>(scope: DeletedScope, field: string): Condition<T> | undefined {
+  if (scope === "include") return undefined;
+  return { field: field as keyof T & string, operator: "isNull", value: scope === "exclude" };
+}
@@ -0,0 +1,226 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { AdapterConfig } from "../adapter";
+import { Model } from "../model";
+import { Persistence } from "../persistence";
+
+/**
+ * The attributes of the model used by the conformance suite. The adapter under test must store
+ * them in a table (or equivalent) with `id`, `name`, `rank` and `note` columns.
+ */
+export type ConformanceAttrs = {
+  id?: any;
+  name: string;
+  rank: number;
+  note: string | null;
+}
+
+export interface AdapterConformanceOptions<A extends AdapterConfig<ConformanceAttrs>> {
+  /** Create a fresh adapter for a single test. The store it points at must start out empty. */
+  createAdapter: () => A | Promise<A>;
+  /** Prepare storage for a test, e.g. create the table. Runs after `createAdapter`. */
+  setup?: (adapter: A) => Promise<void>;
+  /** Clean up after a test, e.g. drop the table or close the connection. */
+  teardown?: (adapter: A) => Promise<void>;
+}
+
+class ConformanceModel extends Model<ConformanceAttrs> {}
+
+/**
+ * Register a `node:test` suite that checks an adapter satisfies the contract `Model` relies on.
+ *
+ * @param name - The name of the suite.
+ * @param options - The adapter factory and setup/teardown hooks.
+ */
+export function describeAdapterConformance<A extends AdapterConfig<ConformanceAttrs>>(
+  name: string,
+  options: AdapterConformanceOptions<A>
+) {
+  describe(name, () => {
+    let adapter: A;
+    let context: any;
+    let primaryKeyField: keyof ConformanceAttrs;
+
+    async function seed(...rows: ConformanceAttrs[]) {
+      const models: ConformanceModel[] = [];
+      for (const row of rows) {
+        models.push(await new ConformanceModel(row).save());
+      }
+      return models;
+    }
+
+    beforeEach(async () => {
+      adapter = await options.createAdapter();
+      if (options.setup) await options.setup(adapter);
+      Persistence(adapter)(ConformanceModel);
+      context = await adapter.getContext();
+      primaryKeyField = adapter.getPrimaryKeyField() as keyof ConformanceAttrs;
+    });
+
+    afterEach(async () => {
+      if (options.teardown) await options.teardown(adapter);
+    });
+
+    describe("insert", () => {
+      it("should report a successful insert of one row", async () => {
+        const model = new ConformanceModel({ name: "a", rank: 1, note: null });
+        const result = await adapter.insert(context, model, { name: "a", rank: 1, note: null });
+
+        assert.equal(result.success, true);
+        assert.equal(result.inserted, true);
+        assert.equal(result.rows, 1);
+        assert.notEqual(result.primaryKey, undefined);
+      });
+
+      it("should put the primary key on the model without marking it changed", async () => {
+        const model = new ConformanceModel({ name: "a", rank: 1, note: null });
+        model.clearChangedFields();
+        const result = await adapter.insert(context, model, { name: "a", rank: 1, note: null });
+
+        assert.equal(model.get(primaryKeyField), result.primaryKey);
+        assert.deepEqual(model.getChangedFields(), []);
+      });
+    });
+
+    describe("get", () => {
+      it("should return the row with the given primary key", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: "x" });
+        const row = await adapter.get(context, model!.get(primaryKeyField));
+
+        assert.equal(row?.[primaryKeyField], model!.get(primaryKeyField));
+        assert.equal(row?.name, "a");
+        assert.equal(row?.rank, 1);
+        assert.equal(row?.note, "x");
+      });
+
+      it("should return null when no row has the primary key", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: null });
+        await model!.del();
+        assert.equal(await adapter.get(context, model!.get(primaryKeyField)), null);
+      });
+    });
+
+    describe("all", () => {
+      it("should return every row without a match", async () => {
+        await seed({ name: "a", rank: 1, note: null }, { name: "b", rank: 2, note: null });
+        const rows = await adapter.all(context);
+        assert.deepEqual(rows.map((row) => row.name).sort(), ["a", "b"]);
+      });
+
+      it("should return an empty array for an empty store", async () => {
+        assert.deepEqual(await adapter.all(context), []);
+      });
+
+      it("should require every field of the match to be equal", async () => {
+        await seed(
+          { name: "a", rank: 1, note: null },
+          { name: "b", rank: 1, note: null },
+          { name: "a", rank: 2, note: null }
+        );
+        const rows = await adapter.all(context, { name: "a", rank: 1 });
+        assert.equal(rows.length, 1);
+        assert.equal(rows[0]?.rank, 1);
+      });
+
+      it("should match null values against missing values", async () => {
+        await seed({ name: "a", rank: 1, note: null }, { name: "b", rank: 1, note: "x" });
+        const rows = await adapter.all(context, { note: null });
+        assert.deepEqual(rows.map((row) => row.name), ["a"]);
+      });
+
+      it("should ignore match keys whose value is undefined", async () => {
+        await seed({ name: "a", rank: 1, note: null }, { name: "b", rank: 1, note: "x" });
+        const rows = await adapter.all(context, { rank: 1, note: undefined });
+        assert.equal(rows.length, 2);
+      });
+    });
+
+    describe("getBy", () => {
+      it("should return the single matching row", async () => {
+        await seed({ name: "a", rank: 1, note: null }, { name: "b", rank: 2, note: null });
+        assert.equal((await adapter.getBy(context, { name: "b" }))?.rank, 2);
+      });
+
+      it("should return null when nothing matches", async () => {
+        await seed({ name: "a", rank: 1, note: null });
+        assert.equal(await adapter.getBy(context, { name: "z" }), null);
+      });
+
+      it("should throw when multiple rows match", async () => {
+        await seed({ name: "a", rank: 1, note: null }, { name: "a", rank: 2, note: null });
+        await assert.rejects(() => adapter.getBy(context, { name: "a" }));
+      });
+    });
+
+    describe("update", () => {
+      it("should write the given fields and report success", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: null });
+        const result = await adapter.update(context, model!, { rank: 5 });
+
+        assert.equal(result.success, true);
+        assert.equal(result.inserted, false);
+        assert.equal(result.rows, 1);
+        assert.equal(result.primaryKey, model!.get(primaryKeyField));
+        const row = await adapter.get(context, model!.get(primaryKeyField));
+        assert.equal(row?.rank, 5);
+        assert.equal(row?.name, "a");
+      });
+
+      it("should report failure when no row was changed", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: null });
+        await adapter.del(context, model!);
+        const result = await adapter.update(context, model!, { rank: 5 });
+
+        assert.equal(result.success, false);
+        assert.equal(result.rows, 0);
+      });
+
+      it("should only write rows that match the conditions", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: null });
+        const stale = await adapter.update(context, model!, { rank: 5 }, { rank: 2 });
+        assert.equal(stale.success, false);
+        assert.equal((await adapter.get(context, model!.get(primaryKeyField)))?.rank, 1);
+
+        const fresh = await adapter.update(context, model!, { rank: 5 }, { rank: 1, note: null });
+        assert.equal(fresh.success, true);
+        assert.equal((await adapter.get(context, model!.get(primaryKeyField)))?.rank, 5);
+      });
+    });
+
+    describe("del", () => {
+      it("should return true when the row was deleted and false afterwards", async () => {
+        const [model, other] = await seed({ name: "a", rank: 1, note: null }, { name: "b", rank: 1, note: null });
+        assert.equal(await adapter.del(context, model!), true);
+        assert.equal(await adapter.del(context, model!), false);
+        assert.notEqual(await adapter.get(context, other!.get(primaryKeyField)), null);
+      });
+
+      it("should only delete rows that match the conditions", async () => {
+        const [model] = await seed({ name: "a", rank: 1, note: null });
+        assert.equal(await adapter.del(context, model!, { rank: 2 }), false);
+        assert.equal(await adapter.del(context, model!, { rank: 1 }), true);
+      });
+    });
+
+    describe("through Model", () => {
+      it("should save, load, update, query and delete models", async () => {
+        const model = await new ConformanceModel({ name: "a", rank: 1, note: null }).save();
+        assert.equal(model.persisted, true);
+
+        model.set("rank", 2);
+        await model.save();
+
+        const loaded = await ConformanceModel.get(model.get(primaryKeyField));
+        assert.ok(loaded instanceof ConformanceModel);
+        assert.equal(loaded.get("rank"), 2);
+        assert.equal(loaded.persisted, true);
+
+        assert.equal((await ConformanceModel.all({ rank: 2 })).length, 1);
+        assert.equal((await ConformanceModel.getBy({ name: "a" }))?.get(primaryKeyField), model.get(primaryKeyField));
+
+        assert.equal(await model.del(), true);
+        assert.equal(await ConformanceModel.get(model.get(primaryKeyField)), null);
+      });
+    });
+  });
+}
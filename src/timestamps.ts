@@ -0,0 +1,45 @@
+import { Model } from "./model";
+import { GlobalSpec, ModelAttributes } from "./types";
+
+/**
+ * The resolved timestamp fields and clock of a model class.
+ */
+export interface TimestampConfig {
+  createdAt?: string;
+  updatedAt?: string;
+  clock: () => Date;
+}
+
+/**
+ * Resolve the `timestamps` option of a global spec, applying the defaults.
+ *
+ * @param globalSpec - The global spec of the model class.
+ * @returns The timestamp config, or undefined if timestamps are not enabled.
+ */
+export function getTimestampConfig(globalSpec?: GlobalSpec<any>): TimestampConfig | undefined {
+  const option = globalSpec?.timestamps;
+  if (!option) return undefined;
+  const options = option === true ? {} : option;
+  return {
+    createdAt: options.createdAt === false ? undefined : options.createdAt ?? "createdAt",
+    updatedAt: options.updatedAt === false ? undefined : options.updatedAt ?? "updatedAt",
+    clock: options.clock ?? (() => new Date()),
+  };
+}
+
+/**
+ * Set the timestamp fields of a model that is about to be saved, marking them as changed. On insert,
+ * the created field is only set if it has no value, so imported models keep theirs.
+ *
+ * @param model - The model being saved.
+ * @param type - Whether the model is being inserted or updated.
+ * @param config - The timestamp config of the model class.
+ */
+export function applyTimestamps<T extends ModelAttributes>(model: Model<T>, type: "insert" | "update", config: TimestampConfig) {
+  const now = config.clock();
+  if (type === "insert" && config.createdAt) {
+    const current = model.get(config.createdAt);
+    if (current === null || current === undefined) model.set(config.createdAt, now as T[string]);
+  }
+  if (config.updatedAt) model.set(config.updatedAt, now as T[string]);
+}
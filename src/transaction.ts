@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AdapterConfig } from "./adapter";
+
+type Scope = {
+  adapter: AdapterConfig<any>;
+  base: any;
+  context: Promise<any>;
+  savepoint?: string;
+}
+
+const storage = new AsyncLocalStorage<Transaction>();
+let savepointCounter = 0;
+
+/**
+ * A transaction spanning every adapter used inside a `transaction()` callback. Each adapter's
+ * transaction is started lazily, the first time a model backed by it is read or written.
+ */
+export class Transaction {
+  protected scopes: Scope[] = [];
+  protected contexts: Map<AdapterConfig<any>, Promise<any>> = new Map();
+  protected callbacks: (() => Promise<void> | void)[] = [];
+  protected rollbackCallbacks: (() => void)[] = [];
+  protected finished = false;
+  public committed = false;
+
+  constructor(public readonly parent?: Transaction) {}
+
+  /**
+   * Get the transactional context for an adapter, starting a transaction (or, in a nested
+   * transaction, a savepoint) on it if this is the first use. Adapters whose `getContext` returns the
+   * same object share one transaction.
+   *
+   * @param adapter - The adapter to get a context for.
+   * @returns A promise that resolves to the context.
+   */
+  public getContext(adapter: AdapterConfig<any>): Promise<any> {
+    if (this.finished) return Promise.reject(new Error("Transaction has already finished"));
+    let context = this.contexts.get(adapter);
+    if (!context) {
+      context = adapter.getContext().then((base) => this.getScope(adapter, base).context);
+      this.contexts.set(adapter, context);
+    }
+    return context;
+  }
+
+  protected getScope(adapter: AdapterConfig<any>, base: any): Scope {
+    const existing = this.scopes.find((scope) => scope.base === base);
+    if (existing) return existing;
+
+    const scope: Scope = { adapter, base, context: Promise.resolve(base) };
+    if (this.parent) {
+      scope.context = this.parent.getContext(adapter).then(async (context) => {
+        if (adapter.savepoint) {
+          scope.savepoint = `tiny_ar_sp_${++savepointCounter}`;
+          await adapter.savepoint(context, scope.savepoint);
+        }
+        return context;
+      });
+    } else if (adapter.begin) {
+      scope.context = adapter.begin(base);
+    }
+    this.scopes.push(scope);
+    return scope;
+  }
+
+  /**
+   * Register a callback to run once the outermost transaction has committed. Callbacks are discarded
+   * if the transaction is rolled back.
+   *
+   * @param callback - The callback to run.
+   */
+  public afterCommit(callback: () => Promise<void> | void) {
+    this.callbacks.push(callback);
+  }
+
+  /**
+   * Register a callback to run if the transaction is rolled back, e.g. to undo changes to a model
+   * that was written in it. Callbacks run in reverse registration order. A nested transaction that
+   * commits hands them to its parent, and they are discarded once the outermost transaction commits.
+   *
+   * @param callback - The callback to run.
+   */
+  public onRollback(callback: () => void) {
+    this.rollbackCallbacks.push(callback);
+  }
+
+  /**
+   * Commit the transaction on every adapter it was started on, or release its savepoints if nested.
+   * A nested transaction hands its `afterCommit` and `onRollback` callbacks to its parent.
+   */
+  public async commit() {
+    this.finished = true;
+    for (const { adapter, context, savepoint } of this.scopes) {
+      const ctx = await context;
+      if (this.parent) {
+        if (savepoint && adapter.releaseSavepoint) await adapter.releaseSavepoint(ctx, savepoint);
+      } else if (adapter.commit) {
+        await adapter.commit(ctx);
+      }
+    }
+    this.committed = true;
+    if (this.parent) {
+      this.parent.callbacks.push(...this.callbacks);
+      this.parent.rollbackCallbacks.push(...this.rollbackCallbacks);
+      this.callbacks = [];
+    }
+    this.rollbackCallbacks = [];
+  }
+
+  /**
+   * Run the `afterCommit` callbacks of a committed outermost transaction, in registration order.
+   */
+  public async runAfterCommit() {
+    const callbacks = this.callbacks;
+    this.callbacks = [];
+    for (const callback of callbacks) await callback();
+  }
+
+  /**
+   * Roll back the transaction on every adapter it was started on, or roll back to its savepoints if
+   * nested, then run its `onRollback` callbacks. Errors from individual adapters are collected and the
+   * first one is rethrown after every adapter has been rolled back.
+   */
+  public async rollback() {
+    this.finished = true;
+    let error: unknown;
+    for (const { adapter, context, savepoint } of this.scopes.slice().reverse()) {
+      try {
+        const ctx = await context;
+        if (this.parent) {
+          if (savepoint && adapter.rollbackToSavepoint) await adapter.rollbackToSavepoint(ctx, savepoint);
+        } else if (adapter.rollback) {
+          await adapter.rollback(ctx);
+        }
+      } catch (err) {
+        if (error === undefined) error = err;
+      }
+    }
+    this.callbacks = [];
+    const rollbackCallbacks = this.rollbackCallbacks.reverse();
+    this.rollbackCallbacks = [];
+    for (const callback of rollbackCallbacks) callback();
+    if (error !== undefined) throw error;
+  }
+}
+
+/**
+ * Get the transaction the current async call chain is running in, if any.
+ *
+ * @returns The current transaction, or undefined.
+ */
+export function currentTransaction(): Transaction | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Get the context to use for an adapter: the transactional context when called inside
+ * `transaction()`, or the adapter's own context otherwise.
+ *
+ * @param adapter - The adapter to get a context for.
+ * @returns A promise that resolves to the context.
+ */
+export function getContext(adapter: AdapterConfig<any>): Promise<any> {
+  const transaction = currentTransaction();
+  return transaction ? transaction.getContext(adapter) : adapter.getContext();
+}
+
+/**
+ * Run a callback in a transaction. Every model read or write inside the callback uses the
+ * transaction's context. The transaction is committed when the callback resolves and rolled back
+ * if it throws. Nested calls use savepoints on adapters that support them, and otherwise join the
+ * enclosing transaction. Transactions on different adapters are committed one after another, so a
+ * failed commit on one adapter cannot undo a commit that already happened on another. Adapters on a
+ * single connection queue concurrent transactions, and make operations outside them wait.
+ *
+ * @param callback - The callback to run.
+ * @returns A promise that resolves to the callback's result.
+ */
+export async function transaction<R>(callback: (tx: Transaction) => Promise<R>): Promise<R> {
+  const tx = new Transaction(currentTransaction());
+  let result: R;
+  try {
+    result = await storage.run(tx, () => callback(tx));
+    await tx.commit();
+  } catch (err) {
+    if (!tx.committed) {
+      try {
+        await tx.rollback();
+      } catch {
+        // the original error is more useful than a failed rollback
+      }
+    }
+    throw err;
+  }
+  if (!tx.parent) await tx.runAfterCommit();
+  return result;
+}
@@ -1,5 +1,6 @@
 import { AdapterConfig } from "./adapter";
 import { Model } from "./model";
+import { RelationDefinitions } from "./relations";
 
 export type ModelAttributes = Record<string, unknown>;
 
@@ -16,32 +17,209 @@ export interface ValueEncoder<T = any, R = any> {
   decode(value: R): T;
 }
 
-export interface FieldSpec {
+/**
+ * The value types a field can be checked against with `FieldSpec.type`.
+ */
+export type FieldType = "string" | "number" | "integer" | "boolean" | "date" | "object" | "array";
+
+/**
+ * The column types a schema can declare with `ColumnSpec.type`. Adapters map them to the types of
+ * their database.
+ */
+export type ColumnType = "text" | "integer" | "real" | "boolean" | "datetime" | "json" | "blob";
+
+/**
+ * The default value of a column: a literal, or raw SQL such as `{ sql: "CURRENT_TIMESTAMP" }`.
+ */
+export type ColumnDefault = string | number | boolean | null | { sql: string };
+
+/**
+ * The column that stores a field, used to generate the table schema and check it against the
+ * database.
+ */
+export interface ColumnSpec {
+  /** The column name, overriding the column naming of the adapter. */
+  name?: string;
+  /** The column type. Defaults to the type matching the field's `type`, or `"text"`. */
+  type?: ColumnType;
+  /** Whether the column accepts NULL. Defaults to true, unless the field is `required`. */
+  nullable?: boolean;
+  default?: ColumnDefault;
+  unique?: boolean;
+  /** Index the column, under the given name or a generated one. */
+  index?: boolean | string;
+}
+
+/**
+ * A custom validator for a single field. Returns an error message if the value is invalid, or nothing
+ * if it is valid.
+ *
+ * @param V - The type of the value in memory in the model.
+ */
+export type FieldValidator<V = any> = (
+  value: V,
+  model: Model<any>
+) => string | undefined | void | Promise<string | undefined | void>;
+
+/**
+ * A `FieldSpec` configures how a single field is persisted and validated. Validation rules other than
+ * `required`, including custom validators, are skipped when the value is null or undefined.
+ *
+ * @param V - The type of the value in memory in the model.
+ */
+export interface FieldSpec<V = any> {
   persist?: boolean;
-  encoder?: ValueEncoder;
+  encoder?: ValueEncoder<V>;
+  /** The value must not be null, undefined or an empty string. */
+  required?: boolean;
+  /** The value must be of this type. */
+  type?: FieldType;
+  /** The minimum value of a number or date. */
+  min?: number | Date;
+  /** The maximum value of a number or date. */
+  max?: number | Date;
+  /** The minimum length of a string or array. */
+  minLength?: number;
+  /** The maximum length of a string or array. */
+  maxLength?: number;
+  /** A pattern that string values must match. */
+  pattern?: RegExp;
+  /** Custom validators, which may be async. */
+  validate?: FieldValidator<V> | FieldValidator<V>[];
+  /** The column storing the field. */
+  column?: ColumnSpec;
+  /** Leave the field out of `toJSON` and `toObject`, unless picked, e.g. for secrets. */
+  hidden?: boolean;
 }
 
 export type FieldSpecs<T> = {
-  [K in keyof T]?: FieldSpec;
+  [K in keyof T]?: FieldSpec<T[K]>;
+}
+
+/**
+ * A model-level validator. Reports errors with `addError`, using `"base"` for errors that don't belong
+ * to a single field.
+ */
+export type ModelValidator<T extends ModelAttributes> = (
+  model: Model<T>,
+  addError: (field: (keyof T & string) | "base", message: string) => void
+) => void | Promise<void>;
+
+/**
+ * Options for soft delete. `field` holds the time a model was deleted, or null; it defaults to
+ * `"deletedAt"`.
+ */
+export interface SoftDeleteOptions<T extends ModelAttributes> {
+  field?: keyof T & string;
 }
 
-export interface GlobalSpec<T extends ModelAttributes> {
-  preSave?: (
-    context: any,
-    model: Model<T>,
-    type: "insert" | "update"
-  ) => Promise<void>;
-  postSave?: (
-    context: any,
-    model: Model<T>,
-    type: "insert" | "update"
-  ) => Promise<void>;
-  postLoad?: (context: any, model: Model<T>) => Promise<void>;
-  postDelete?: (context: any, model: Model<T>) => Promise<void>;
+/**
+ * Options for automatic timestamps. `createdAt` and `updatedAt` name the fields to set, defaulting to
+ * `"createdAt"` and `"updatedAt"`; pass `false` to leave one out. `clock` returns the current time and
+ * defaults to `() => new Date()`.
+ */
+export interface TimestampOptions<T extends ModelAttributes> {
+  createdAt?: (keyof T & string) | false;
+  updatedAt?: (keyof T & string) | false;
+  clock?: () => Date;
+}
+
+/**
+ * Options for optimistic locking. `field` holds an integer version that is incremented on every
+ * update; it defaults to `"version"`.
+ */
+export interface OptimisticLockingOptions<T extends ModelAttributes> {
+  field?: keyof T & string;
+}
+
+/**
+ * Options for the audit trail. `name` identifies the model class in the history and defaults to the
+ * class name; fields in `exclude`, such as password hashes, are left out of the recorded changes.
+ */
+export interface AuditOptions<T extends ModelAttributes> {
+  name?: string;
+  exclude?: (keyof T & string)[];
+}
+
+/**
+ * Whether a delete only marked the model as deleted (`"soft"`) or removed its row (`"hard"`).
+ */
+export type DeleteType = "soft" | "hard";
+
+/**
+ * Whether a save inserted the model's row or updated it.
+ */
+export type SaveType = "insert" | "update";
+
+/**
+ * The kind of write a model's `afterCommit` hooks run for.
+ */
+export type ChangeType = SaveType | "delete";
+
+/**
+ * A hook, or several hooks that run in order.
+ */
+export type Hooks<F> = F | F[];
+
+/**
+ * The lifecycle hooks of a model class. Saving runs `preSave`, `preInsert` or `preUpdate`,
+ * `preValidate`, then writes the row and runs `postInsert` or `postUpdate` and `postSave`. Each event
+ * also calls the model's method of the same name first, so subclasses can override those instead.
+ */
+export interface ModelHooks<T extends ModelAttributes> {
+  preSave?: Hooks<(context: any, model: Model<T>, type: SaveType) => Promise<void>>;
+  preInsert?: Hooks<(context: any, model: Model<T>) => Promise<void>>;
+  preUpdate?: Hooks<(context: any, model: Model<T>) => Promise<void>>;
+  /** Runs before a save validates the model, after the other pre-save hooks. */
+  preValidate?: Hooks<(context: any, model: Model<T>, type: SaveType) => Promise<void>>;
+  postInsert?: Hooks<(context: any, model: Model<T>) => Promise<void>>;
+  postUpdate?: Hooks<(context: any, model: Model<T>) => Promise<void>>;
+  postSave?: Hooks<(context: any, model: Model<T>, type: SaveType) => Promise<void>>;
+  postLoad?: Hooks<(context: any, model: Model<T>) => Promise<void>>;
+  /** Runs before a model is deleted. Return false to cancel the delete, which then returns false. */
+  preDelete?: Hooks<(context: any, model: Model<T>, type: DeleteType) => Promise<boolean | void>>;
+  postDelete?: Hooks<(context: any, model: Model<T>, type: DeleteType) => Promise<void>>;
+  /**
+   * Runs once the transaction a model was saved or deleted in has committed, and not at all if it is
+   * rolled back. Outside transactions, it runs right after the save or delete.
+   */
+  afterCommit?: Hooks<(model: Model<T>, type: ChangeType) => Promise<void> | void>;
+}
+
+export interface GlobalSpec<T extends ModelAttributes> extends ModelHooks<T> {
+  validate?: ModelValidator<T> | ModelValidator<T>[];
+  relations?: RelationDefinitions;
+  /**
+   * Keep rows when models are deleted, and set a deletion time instead. Soft-deleted models are
+   * excluded from queries unless asked for with `withDeleted` or `onlyDeleted`.
+   */
+  softDelete?: boolean | SoftDeleteOptions<T>;
+  /**
+   * Set created and updated times when models are saved. The values are `Date`s, so use a field
+   * encoder if the database stores another type.
+   */
+  timestamps?: boolean | TimestampOptions<T>;
+  /**
+   * Keep a version on each row and only update or delete it if it still has the version the model was
+   * loaded with, throwing a `StaleModelError` otherwise.
+   */
+  optimisticLocking?: boolean | OptimisticLockingOptions<T>;
+  /**
+   * Record every insert, update and delete of the class's models in the history store set up with
+   * `enableAudit`.
+   */
+  audit?: boolean | AuditOptions<T>;
 }
 
 export type ModelType<M> = M extends Model<infer T> ? T : never;
 
+/**
+ * The changes of a model as `[from, to]` pairs, keyed by field.
+ */
+export type ModelChanges<T> = { [K in keyof T]?: [T[K], T[K]] };
+
+export type ModelClass<M extends Model<any>> = new (...args: any[]) => M;
+
 export interface PersistenceInfo<M extends Model<any>> {
   adapter: AdapterConfig<ModelType<M>>;
   fieldSpecs?: FieldSpecs<ModelType<M>>;
@@ -0,0 +1,108 @@
+import { ValidationErrors } from "./errors";
+import { Model } from "./model";
+import { FieldSpec, FieldType, ModelAttributes, PersistenceInfo } from "./types";
+
+function toArray<V>(value: V | V[] | undefined): V[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && !isNaN(value);
+    case "integer": return typeof value === "number" && Math.floor(value) === value && isFinite(value);
+    case "boolean": return typeof value === "boolean";
+    case "date": return value instanceof Date && !isNaN(value.getTime());
+    case "array": return Array.isArray(value);
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+  return false;
+}
+
+function toComparable(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (value instanceof Date) return value.getTime();
+  return undefined;
+}
+
+function describeBound(bound: number | Date): string {
+  return bound instanceof Date ? bound.toISOString() : String(bound);
+}
+
+/**
+ * Check a single value against the built-in rules of a field spec.
+ *
+ * @param value - The value to check.
+ * @param spec - The field spec.
+ * @returns The error messages, if any.
+ */
+export function checkFieldRules(value: unknown, spec: FieldSpec): string[] {
+  if (spec.required && (isMissing(value) || value === "")) return ["is required"];
+  if (isMissing(value)) return [];
+
+  const errors: string[] = [];
+  if (spec.type && !hasType(value, spec.type)) {
+    errors.push(`must be ${spec.type === "integer" || spec.type === "array" || spec.type === "object" ? "an" : "a"} ${spec.type}`);
+    return errors;
+  }
+
+  const comparable = toComparable(value);
+  if (comparable !== undefined) {
+    if (spec.min !== undefined && comparable < toComparable(spec.min)!) errors.push(`must be at least ${describeBound(spec.min)}`);
+    if (spec.max !== undefined && comparable > toComparable(spec.max)!) errors.push(`must be at most ${describeBound(spec.max)}`);
+  }
+
+  if (typeof value === "string" || Array.isArray(value)) {
+    const unit = typeof value === "string" ? "characters" : "items";
+    if (spec.minLength !== undefined && value.length < spec.minLength) errors.push(`must have at least ${spec.minLength} ${unit}`);
+    if (spec.maxLength !== undefined && value.length > spec.maxLength) errors.push(`must have at most ${spec.maxLength} ${unit}`);
+  }
+
+  if (spec.pattern && typeof value === "string") {
+    spec.pattern.lastIndex = 0;
+    if (!spec.pattern.test(value)) errors.push("is invalid");
+  }
+  return errors;
+}
+
+/**
+ * Validate a model against its field specs and model-level validators.
+ *
+ * @param model - The model to validate.
+ * @param persistence - The persistence information of the model's class.
+ * @returns A promise that resolves to the errors keyed by field; empty if the model is valid.
+ */
+export async function validateModel<T extends ModelAttributes>(
+  model: Model<T>,
+  persistence: PersistenceInfo<Model<T>>
+): Promise<ValidationErrors> {
+  const { fieldSpecs, globalSpec } = persistence;
+  const errors: ValidationErrors = {};
+  const addError = (field: string, message: string) => {
+    (errors[field] = errors[field] || []).push(message);
+  };
+
+  if (fieldSpecs) {
+    for (const field of Object.keys(fieldSpecs) as (keyof T & string)[]) {
+      const spec = fieldSpecs[field];
+      if (!spec) continue;
+      const value = model.get(field);
+      for (const message of checkFieldRules(value, spec)) addError(field, message);
+      if (isMissing(value) || errors[field]) continue;
+      for (const validator of toArray(spec.validate)) {
+        const message = await validator(value, model);
+        if (message) addError(field, message);
+      }
+    }
+  }
+
+  for (const validator of toArray(globalSpec?.validate)) {
+    await validator(model, addError);
+  }
+  return errors;
+}
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BelongsTo, belongsTo, createMemoryAdapter, Model, Persistence, withAccessors } from "../src";
+
+type PersonAttrs = {
+  id?: number;
+  firstName: string;
+  lastName: string;
+  age: number;
+  nickname?: string;
+  teamId?: number;
+}
+
+type TeamAttrs = {
+  id?: number;
+  name: string;
+}
+
+const people = createMemoryAdapter<PersonAttrs>({ primaryKey: "autoincrement" });
+
+@Persistence<TeamAttrs>(createMemoryAdapter<TeamAttrs>({ primaryKey: "autoincrement" }))
+class Team extends withAccessors<TeamAttrs>() {}
+
+@Persistence<PersonAttrs>(people, {}, {
+  relations: { team: belongsTo(() => Team) },
+})
+class Person extends withAccessors<PersonAttrs>() {
+  declare team: BelongsTo<Team>;
+
+  public fullName() {
+    return `${this.firstName} ${this.lastName}`;
+  }
+}
+
+describe("Property accessors", () => {
+  it("should read and write fields through properties", async () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace", age: 36 });
+    assert.equal(person.firstName, "Ada");
+    assert.equal(person.fullName(), "Ada Lovelace");
+
+    person.age = 37;
+    assert.equal(person.get("age"), 37);
+    person.set("lastName", "King");
+    assert.equal(person.lastName, "King");
+    assert.deepEqual(person.getChangedFields(), ["firstName", "lastName", "age"]);
+
+    await person.save();
+    assert.equal(typeof person.id, "number");
+    person.age = 36;
+    assert.deepEqual(person.getChanges(), { age: [37, 36] });
+    person.age = 37;
+    assert.deepEqual(person.getChangedFields(), []);
+  });
+
+  it("should define properties for fields that appear later", async () => {
+    const person = new Person({ firstName: "Grace", lastName: "Hopper", age: 40 });
+    person.set("nickname", "Amazing Grace");
+    assert.equal(person.nickname, "Amazing Grace");
+
+    await person.save();
+    const loaded = (await Person.get(person.id))!;
+    assert.equal(loaded.nickname, "Amazing Grace");
+    assert.equal(Object.keys(loaded).indexOf("nickname"), -1);
+  });
+
+  it("should route assignments to optional fields that no model had yet through set", async () => {
+    type PetAttrs = { id?: number; name: string; nickname?: string; chipId?: string };
+
+    @Persistence<PetAttrs>(createMemoryAdapter<PetAttrs>({ primaryKey: "autoincrement" }), { chipId: {} })
+    class Pet extends withAccessors<PetAttrs>(["nickname"]) {}
+
+    const pet = await new Pet({ name: "Rex" }).save();
+    pet.nickname = "Rexy";
+    pet.chipId = "A1";
+    assert.deepEqual(pet.getChanges(), { nickname: [undefined, "Rexy"], chipId: [undefined, "A1"] });
+    assert.deepEqual(Object.keys(pet).filter((key) => key === "nickname" || key === "chipId"), []);
+
+    await pet.save();
+    const loaded = (await Pet.get(pet.id))!;
+    assert.deepEqual([loaded.nickname, loaded.chipId], ["Rexy", "A1"]);
+  });
+
+  it("should skip fields named like members of model instances", async () => {
+    type RecordAttrs = { id?: number; data: string; name: string };
+
+    @Persistence<RecordAttrs>(createMemoryAdapter<RecordAttrs>({ primaryKey: "autoincrement" }), { data: {} })
+    class Entry extends withAccessors<RecordAttrs>(["data", "name"]) {}
+
+    const entry = await new Entry({ data: "payload", name: "first" }).save();
+    entry.name = "second";
+    entry.set("data", "changed");
+    assert.deepEqual(entry.getChanges(), { name: ["first", "second"], data: ["payload", "changed"] });
+    assert.equal(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object.getPrototypeOf(entry)), "data"), undefined);
+
+    await entry.save();
+    assert.deepEqual((await Entry.get(entry.id))!.getAttributes(), { id: entry.id, data: "changed", name: "second" });
+  });
+
+  it("should keep relation accessors and model members", async () => {
+    const team = await new Team({ name: "Analysts" }).save();
+    const person = await new Person({ firstName: "Ada", lastName: "Byron", age: 20, teamId: team.id }).save();
+    assert.ok(person.team instanceof BelongsTo);
+    assert.equal((await person.team.load())?.name, "Analysts");
+    assert.equal(person.persisted, true);
+  });
+
+  it("should type properties from the attributes", () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace", age: 36 });
+    const age: number = person.age;
+    const id: number | undefined = person.id;
+    assert.deepEqual([age, id], [36, undefined]);
+    // @ts-expect-error age is a number
+    person.age = "thirty-six";
+    // @ts-expect-error unknown field
+    person.weight;
+
+    class Plain extends Model<PersonAttrs> {}
+    // @ts-expect-error only classes created with withAccessors have properties
+    new Plain({ firstName: "Ada", lastName: "Lovelace", age: 36 }).firstName;
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { newDb } from "pg-mem";
+import { AdapterConfig, createMemoryAdapter, Model, Persistence, ValueEncoder } from "../src";
+import { createPostgresAdapter } from "../src/adapters/postgres";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type OrderAttrs = {
+  id?: number;
+  customer: string;
+  status: string;
+  total: number;
+  discount: number | null;
+  deletedAt?: Date | null;
+}
+
+const dateEncoder: ValueEncoder<Date | null | undefined, string | null> = {
+  encode: (value) => value ? value.toISOString() : null,
+  decode: (value) => value === null ? null : new Date(value),
+};
+
+const orders: OrderAttrs[] = [
+  { customer: "ada", status: "paid", total: 30, discount: 5, deletedAt: null },
+  { customer: "ada", status: "paid", total: 20, discount: null, deletedAt: null },
+  { customer: "ada", status: "open", total: 15, discount: null, deletedAt: null },
+  { customer: "bob", status: "paid", total: 50, discount: 10, deletedAt: null },
+  { customer: "bob", status: "open", total: 5, discount: null, deletedAt: null },
+  { customer: "cy", status: "paid", total: 1000, discount: null, deletedAt: new Date("2024-01-01T00:00:00Z") },
+];
+
+function describeAggregates(name: string, createAdapter: () => Promise<AdapterConfig<OrderAttrs>>, cleanup: () => Promise<void>) {
+  describe(name, () => {
+    class Order extends Model<OrderAttrs> {}
+
+    before(async () => {
+      Persistence<OrderAttrs>(await createAdapter(), {
+        deletedAt: { encoder: dateEncoder },
+      }, { softDelete: true })(Order);
+      await Order.insertMany(orders.map((attrs) => new Order(attrs)));
+    });
+
+    after(cleanup);
+
+    it("should count, sum, average and find extremes of matching models", async () => {
+      assert.equal(await Order.count(), 5);
+      assert.equal(await Order.count({ customer: "ada" }), 3);
+      assert.equal(await Order.sum("total"), 120);
+      assert.equal(await Order.sum("total", { status: "paid" }), 100);
+      assert.equal(await Order.avg("total", { customer: "bob" }), 27.5);
+      assert.equal(await Order.min("total"), 5);
+      assert.equal(await Order.max("total", { customer: "ada" }), 30);
+    });
+
+    it("should ignore null values and handle empty matches", async () => {
+      assert.equal(await Order.avg("discount"), 7.5);
+      assert.equal(await Order.count({ customer: "zed" }), 0);
+      assert.equal(await Order.sum("total", { customer: "zed" }), 0);
+      assert.equal(await Order.avg("total", { customer: "zed" }), null);
+      assert.equal(await Order.max("discount", { status: "open" }), null);
+    });
+
+    it("should exclude soft-deleted models unless matching on the soft delete field", async () => {
+      assert.equal(await Order.max("total", { customer: "cy" }), null);
+      assert.equal(await Order.count({ deletedAt: undefined }), 6);
+      assert.equal(await Order.sum("total", { customer: "cy", deletedAt: undefined }), 1000);
+    });
+
+    it("should group models into typed buckets", async () => {
+      const byStatus = await Order.groupBy("status");
+      assert.deepEqual(byStatus, [{ status: "open", count: 2 }, { status: "paid", count: 3 }]);
+
+      const buckets = await Order.groupBy(["customer", "status"], {
+        orders: "count",
+        revenue: ["sum", "total"],
+        largest: ["max", "total"],
+        discount: ["avg", "discount"],
+      }, { customer: "ada" });
+      assert.deepEqual(buckets, [
+        { customer: "ada", status: "open", orders: 1, revenue: 15, largest: 15, discount: null },
+        { customer: "ada", status: "paid", orders: 2, revenue: 50, largest: 30, discount: 5 },
+      ]);
+      const revenue: number | null = buckets[0]!.revenue;
+      const status: string = buckets[0]!.status;
+      assert.equal(`${status}:${revenue}`, "open:15");
+    });
+  });
+}
+
+describeAggregates(
+  "Aggregates (memory)",
+  async () => createMemoryAdapter<OrderAttrs>({ primaryKey: "autoincrement" }),
+  async () => {}
+);
+
+describeAggregates(
+  "Aggregates (adapter without aggregate)",
+  async () => {
+    const { aggregate, ...adapter } = createMemoryAdapter<OrderAttrs>({ primaryKey: "autoincrement" });
+    return adapter;
+  },
+  async () => {}
+);
+
+let db: SqliteDatabase;
+
+describeAggregates(
+  "Aggregates (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE orders (id INTEGER PRIMARY KEY AUTOINCREMENT, customer TEXT, status TEXT, total INTEGER, discount INTEGER, deleted_at TEXT)");
+    return createSqliteAdapter<OrderAttrs>({ database: db, tableName: "orders", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.close(); }
+);
+
+let pool: any;
+
+describeAggregates(
+  "Aggregates (PostgreSQL)",
+  async () => {
+    const { Pool } = newDb().adapters.createPg();
+    pool = new Pool();
+    await pool.query("CREATE TABLE orders (id SERIAL PRIMARY KEY, customer TEXT, status TEXT, total INTEGER, discount INTEGER, deleted_at TEXT)");
+    return createPostgresAdapter<OrderAttrs>({ pool, tableName: "orders", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await pool.end(); }
+);
+
+describe("Aggregate types", () => {
+  @Persistence(createMemoryAdapter<OrderAttrs>())
+  class Order extends Model<OrderAttrs> {}
+
+  it("should only aggregate numeric fields", () => {
+    // @ts-expect-error status is a string
+    Order.sum("status");
+    // @ts-expect-error unknown field
+    Order.max("weight");
+    // @ts-expect-error status is a string
+    Order.groupBy("customer", { total: ["avg", "status"] });
+    // @ts-expect-error unknown field
+    Order.groupBy("weight");
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { createMemoryAdapter, enableAudit, getHistory, Model, modelEvents, Persistence, transaction, ValueEncoder } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type AccountAttrs = {
+  id?: number;
+  email: string;
+  password: string;
+  birthday: Date;
+  deletedAt?: Date | null;
+}
+
+const dateEncoder: ValueEncoder<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (value) => new Date(value),
+};
+
+describe("Audit trail", () => {
+  let db: SqliteDatabase;
+  let disable: () => void;
+  let actor: string | null = null;
+  let now = new Date("2024-01-01T00:00:00Z");
+  const at = (iso: string) => { now = new Date(iso); };
+
+  const adapter = createMemoryAdapter<AccountAttrs>({ primaryKey: "autoincrement" });
+
+  @Persistence<AccountAttrs>(adapter, { birthday: { encoder: dateEncoder } }, { audit: { exclude: ["password"] } })
+  class Account extends Model<AccountAttrs> {}
+
+  @Persistence<AccountAttrs>(adapter, {}, { audit: { name: "archived_account" }, softDelete: true })
+  class ArchivedAccount extends Model<AccountAttrs> {}
+
+  @Persistence<AccountAttrs>(adapter)
+  class Guest extends Model<AccountAttrs> {}
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run(`CREATE TABLE audit_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, model_name TEXT, primary_key TEXT, operation TEXT, delete_type TEXT,
+      changes TEXT, actor TEXT, recorded_at TEXT
+    )`);
+    disable = enableAudit({
+      adapter: createSqliteAdapter({ database: db, tableName: "audit_entries", columnNaming: "snake", primaryKey: "autoincrement" }),
+      actor: async () => actor,
+      clock: () => now,
+    });
+  });
+
+  after(async () => {
+    disable();
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    adapter.reset();
+    actor = "alice";
+    await db.run("DELETE FROM audit_entries");
+  });
+
+  it("should record inserts, updates and deletes with the actor and time", async () => {
+    at("2024-01-01T00:00:00Z");
+    const account = await new Account({ email: "a@example.com", password: "secret", birthday: new Date("1990-05-01") }).save();
+    at("2024-02-01T00:00:00Z");
+    actor = "bob";
+    account.set({ email: "b@example.com", password: "hunter2" });
+    await account.save();
+    at("2024-03-01T00:00:00Z");
+    await account.del();
+
+    const { records } = await account.history();
+    assert.deepEqual(records.map((record) => [record.operation, record.actor, record.recordedAt.toISOString()]), [
+      ["insert", "alice", "2024-01-01T00:00:00.000Z"],
+      ["update", "bob", "2024-02-01T00:00:00.000Z"],
+      ["delete", "bob", "2024-03-01T00:00:00.000Z"],
+    ]);
+    assert.deepEqual(records[0]?.changes, {
+      id: [null, account.get("id")],
+      email: [null, "a@example.com"],
+      birthday: [null, new Date("1990-05-01")],
+    });
+    assert.deepEqual(records[1]?.changes, { email: ["a@example.com", "b@example.com"] });
+    assert.equal(records[2]?.deleteType, "hard");
+    assert.deepEqual(records[2]?.changes.email, ["b@example.com", null]);
+
+    const row = await db.get("SELECT model_name, primary_key, changes FROM audit_entries WHERE operation = 'update'");
+    assert.deepEqual(row, { model_name: "Account", primary_key: String(account.get("id")), changes: '{"email":["a@example.com","b@example.com"]}' });
+  });
+
+  it("should reconstruct a record as of a given time", async () => {
+    at("2024-01-01T00:00:00Z");
+    const account = await new Account({ email: "a@example.com", password: "secret", birthday: new Date("1990-05-01") }).save();
+    at("2024-02-01T00:00:00Z");
+    account.set("email", "b@example.com");
+    await account.save();
+    at("2024-03-01T00:00:00Z");
+    await account.del();
+
+    const history = await getHistory(Account, account.get("id"));
+    assert.equal(history.asOf(new Date("2023-12-31T00:00:00Z")), null);
+    const original = history.asOf(new Date("2024-01-15T00:00:00Z"));
+    assert.ok(original instanceof Account);
+    assert.equal(original.get("email"), "a@example.com");
+    assert.equal(original.get("birthday").getTime(), new Date("1990-05-01").getTime());
+    assert.equal(history.asOf(new Date("2024-02-01T00:00:00Z"))?.get("email"), "b@example.com");
+    assert.equal(history.asOf(new Date("2024-03-01T00:00:00Z")), null);
+  });
+
+  it("should record soft deletes under the configured name", async () => {
+    const account = await new ArchivedAccount({ email: "a@example.com", password: "x", birthday: new Date(0), deletedAt: null }).save();
+    await account.del();
+
+    const { records } = await account.history();
+    assert.deepEqual(records.map((record) => [record.operation, record.deleteType]), [["insert", null], ["delete", "soft"]]);
+    assert.ok(records[0]?.changes.password);
+    assert.ok((await account.history()).asOf(now)?.get("deletedAt"));
+    assert.deepEqual(await db.all("SELECT DISTINCT model_name FROM audit_entries"), [{ model_name: "archived_account" }]);
+  });
+
+  it("should record models inserted in bulk, but not bulk updates and deletes", async () => {
+    await Account.insertMany([
+      new Account({ email: "a@example.com", password: "x", birthday: new Date(0) }),
+      new Account({ email: "b@example.com", password: "x", birthday: new Date(0) }),
+    ]);
+    await Account.updateAll({ email: "a@example.com" }, { email: "c@example.com" });
+    await Account.deleteAll({ email: "b@example.com" });
+
+    const entries = await db.all("SELECT primary_key, operation FROM audit_entries ORDER BY id");
+    assert.deepEqual(entries, [{ primary_key: "1", operation: "insert" }, { primary_key: "2", operation: "insert" }]);
+  });
+
+  it("should keep recording after the event bus is cleared", async () => {
+    modelEvents.clear();
+    const account = await new Account({ email: "a@example.com", password: "x", birthday: new Date(0) }).save();
+    await account.set("email", "b@example.com").save();
+    await account.del();
+
+    const { records } = await account.history();
+    assert.deepEqual(records.map((record) => record.operation), ["insert", "update", "delete"]);
+  });
+
+  it("should skip models without the audit option and rolled back changes", async () => {
+    await new Guest({ email: "g@example.com", password: "x", birthday: new Date(0) }).save();
+    await assert.rejects(() => transaction(async () => {
+      await new Account({ email: "a@example.com", password: "x", birthday: new Date(0) }).save();
+      throw new Error("rollback");
+    }));
+    assert.deepEqual(await db.all("SELECT * FROM audit_entries"), []);
+  });
+});
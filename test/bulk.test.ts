@@ -0,0 +1,205 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { AdapterConfig, createMemoryAdapter, Model, Persistence, ValidationError, ValueEncoder } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type ProductAttrs = {
+  id?: number;
+  sku: string;
+  price: number;
+  tags: string[];
+  updatedAt?: Date | null;
+  deletedAt?: Date | null;
+  version?: number;
+}
+
+const tagsEncoder: ValueEncoder<string[], string> = {
+  encode: (value) => value.join(","),
+  decode: (value) => value ? value.split(",") : [],
+};
+
+const dateEncoder: ValueEncoder<Date | null | undefined, string | null> = {
+  encode: (value) => value ? value.toISOString() : null,
+  decode: (value) => value === null ? null : new Date(value),
+};
+
+const now = new Date("2024-06-01T00:00:00Z");
+
+function describeBulk(
+  name: string,
+  createAdapter: () => Promise<AdapterConfig<ProductAttrs>>,
+  reset: () => Promise<void>,
+  cleanup: () => Promise<void>
+) {
+  describe(name, () => {
+    let hooks: string[] = [];
+
+    class Product extends Model<ProductAttrs> {}
+    class LockedProduct extends Model<ProductAttrs> {}
+
+    before(async () => {
+      const adapter = await createAdapter();
+      Persistence<ProductAttrs>(adapter, {
+        sku: { required: true },
+        tags: { encoder: tagsEncoder },
+        updatedAt: { encoder: dateEncoder },
+        deletedAt: { encoder: dateEncoder },
+      }, {
+        timestamps: { createdAt: false, clock: () => now },
+        softDelete: true,
+        preSave: async (_context, model, type) => { hooks.push(`preSave:${type}:${model.get("sku")}`); },
+        postSave: async (_context, model, type) => { hooks.push(`postSave:${type}:${model.get("sku")}`); },
+        postDelete: async () => { hooks.push("postDelete"); },
+      })(Product);
+      Persistence<ProductAttrs>(adapter, { tags: { encoder: tagsEncoder } }, { optimisticLocking: true })(LockedProduct);
+    });
+
+    beforeEach(async () => {
+      hooks = [];
+      await reset();
+    });
+
+    after(cleanup);
+
+    async function seed() {
+      return Product.insertMany([
+        { sku: "a", price: 1, tags: ["x"], deletedAt: null },
+        { sku: "b", price: 2, tags: ["x", "y"], deletedAt: null },
+        new Product({ sku: "c", price: 2, tags: [], deletedAt: null }),
+      ]);
+    }
+
+    it("should insert models and attributes and set their primary keys", async () => {
+      const products = await seed();
+      assert.equal(products.length, 3);
+      assert.ok(products.every((product) => product instanceof Product && product.persisted));
+      assert.equal(new Set(products.map((product) => product.get("id"))).size, 3);
+      assert.deepEqual(products[0]?.getChangedFields(), []);
+
+      const loaded = await Product.get(products[1]!.get("id"));
+      assert.deepEqual(loaded?.get("tags"), ["x", "y"]);
+      assert.equal(loaded?.get("updatedAt")?.getTime(), now.getTime());
+    });
+
+    it("should run save hooks for each inserted model", async () => {
+      await seed();
+      assert.deepEqual(hooks, [
+        "preSave:insert:a", "preSave:insert:b", "preSave:insert:c",
+        "postSave:insert:a", "postSave:insert:b", "postSave:insert:c",
+      ]);
+    });
+
+    it("should write nothing if any model is invalid", async () => {
+      await assert.rejects(
+        () => Product.insertMany([{ sku: "ok", price: 1, tags: [] }, { sku: "", price: 1, tags: [] }]),
+        ValidationError
+      );
+      assert.equal(await Product.where().withDeleted().count(), 0);
+    });
+
+    it("should update matching rows without loading them", async () => {
+      await seed();
+      assert.equal(await Product.updateAll({ price: 2 }, { price: 3, tags: ["sale"] }), 2);
+      assert.deepEqual(hooks.filter((hook) => hook.startsWith("preSave:update")), []);
+
+      const updated = await Product.all({ price: 3 });
+      assert.deepEqual(updated.map((product) => product.get("sku")).sort(), ["b", "c"]);
+      assert.deepEqual(updated[0]?.get("tags"), ["sale"]);
+      assert.equal(await Product.updateAll({ price: 99 }, { price: 1 }), 0);
+    });
+
+    it("should soft-delete matching rows unless forced", async () => {
+      await seed();
+      assert.equal(await Product.deleteAll({ price: 2 }), 2);
+      assert.equal(await Product.where().count(), 1);
+      assert.equal((await Product.onlyDeleted().first())?.get("deletedAt")?.getTime(), now.getTime());
+      assert.equal(await Product.updateAll({}, { price: 5 }), 1);
+      assert.equal(await Product.deleteAll({ price: 2 }), 0);
+
+      assert.equal(await Product.deleteAll({}, { force: true }), 3);
+      assert.equal(await Product.withDeleted().count(), 0);
+      assert.deepEqual(hooks.filter((hook) => hook === "postDelete"), []);
+    });
+
+    it("should increment versions of models with optimistic locking", async () => {
+      const [first, second] = await LockedProduct.insertMany([
+        { sku: "a", price: 1, tags: [] },
+        { sku: "b", price: 1, tags: [] },
+      ]);
+      assert.equal(first?.get("version"), 0);
+      assert.equal(await LockedProduct.updateAll({ price: 1 }, { price: 2 }), 2);
+      assert.equal((await LockedProduct.get(second!.get("id")))?.get("version"), 1);
+
+      first!.set("price", 3);
+      await assert.rejects(() => first!.save(), /Stale/);
+    });
+
+    it("should run concurrent bulk operations", async () => {
+      const batch = (prefix: string) => Array.from({ length: 5 }, (_, i) => ({ sku: `${prefix}${i}`, price: 1, tags: [] }));
+      const [first, second] = await Promise.all([Product.insertMany(batch("a")), Product.insertMany(batch("b"))]);
+      assert.deepEqual([first.length, second.length], [5, 5]);
+
+      const [updated, deleted] = await Promise.all([
+        Product.updateAll({ sku: "a1" }, { price: 2 }),
+        Product.deleteAll({ sku: "a0" }, { force: true }),
+        Product.insertMany(batch("c")),
+      ]);
+      assert.deepEqual([updated, deleted], [1, 1]);
+      assert.equal(await Product.where().count(), 14);
+    });
+  });
+}
+
+const memory = createMemoryAdapter<ProductAttrs>({ primaryKey: "autoincrement" });
+describeBulk(
+  "Bulk operations (memory)",
+  async () => memory,
+  async () => memory.reset(),
+  async () => {}
+);
+
+const fallback = createMemoryAdapter<ProductAttrs>({ primaryKey: "autoincrement" });
+describeBulk(
+  "Bulk operations (per-row fallback)",
+  async () => ({ ...fallback, insertMany: undefined, updateAll: undefined, deleteAll: undefined }),
+  async () => fallback.reset(),
+  async () => {}
+);
+
+let db: SqliteDatabase;
+describeBulk(
+  "Bulk operations (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE products (id INTEGER PRIMARY KEY AUTOINCREMENT, sku TEXT, price INTEGER, tags TEXT, updated_at TEXT, deleted_at TEXT, version INTEGER)");
+    return createSqliteAdapter<ProductAttrs>({ database: db, tableName: "products", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.run("DELETE FROM products"); },
+  async () => { await db.close(); }
+);
+
+describe("Bulk insert (SQLite, uuid keys)", () => {
+  type TagAttrs = { id?: string; label: string };
+  let db: SqliteDatabase;
+
+  class Tag extends Model<TagAttrs> {}
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE tags (id TEXT PRIMARY KEY, label TEXT)");
+    Persistence<TagAttrs>(createSqliteAdapter({ database: db, tableName: "tags" }))(Tag);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it("should generate keys and insert rows with different fields", async () => {
+    const tags = await Tag.insertMany([{ label: "one" }, { id: "fixed", label: "two" }, { label: "three" }]);
+    assert.equal(tags[1]?.get("id"), "fixed");
+    assert.match(String(tags[0]?.get("id")), /^[0-9a-f-]{36}$/);
+    assert.equal((await Tag.all()).length, 3);
+  });
+});
@@ -0,0 +1,48 @@
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { newDb } from "pg-mem";
+import { createMemoryAdapter } from "../src";
+import { createPostgresAdapter } from "../src/adapters/postgres";
+import { createSqliteAdapter } from "../src/adapters/sqlite";
+import { ConformanceAttrs, describeAdapterConformance } from "../src/testing/conformance";
+
+describeAdapterConformance("Memory adapter conformance", {
+  createAdapter: () => createMemoryAdapter<ConformanceAttrs>(),
+});
+
+describeAdapterConformance("SQLite adapter conformance (uuid keys)", {
+  createAdapter: async () => {
+    const db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE conformance (id TEXT PRIMARY KEY, name TEXT, rank INTEGER, note TEXT)");
+    return createSqliteAdapter<ConformanceAttrs>({ database: db, tableName: "conformance" });
+  },
+  teardown: async (adapter) => {
+    const { db } = await adapter.getContext();
+    await db.close();
+  },
+});
+
+describeAdapterConformance("SQLite adapter conformance (autoincrement keys)", {
+  createAdapter: async () => {
+    const db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE conformance (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, rank INTEGER, note TEXT)");
+    return createSqliteAdapter<ConformanceAttrs>({ database: db, tableName: "conformance", primaryKey: "autoincrement" });
+  },
+  teardown: async (adapter) => {
+    const { db } = await adapter.getContext();
+    await db.close();
+  },
+});
+
+describeAdapterConformance("PostgreSQL adapter conformance (serial keys)", {
+  createAdapter: async () => {
+    const { Pool } = newDb().adapters.createPg();
+    const pool = new Pool();
+    await pool.query('CREATE TABLE conformance (id SERIAL PRIMARY KEY, name TEXT, "rank" INTEGER, note TEXT)');
+    return createPostgresAdapter<ConformanceAttrs>({ pool, tableName: "conformance", primaryKey: "autoincrement" });
+  },
+  teardown: async (adapter) => {
+    const { pool } = await adapter.getContext();
+    await pool.end();
+  },
+});
@@ -0,0 +1,107 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryAdapter, Model, ModelChanges, Persistence, valuesEqual, ValueEncoder } from "../src";
+
+type DocumentAttrs = {
+  id?: number;
+  title: string;
+  meta: { tags: string[]; draft: boolean };
+  publishedAt?: Date | null;
+}
+
+const jsonEncoder: ValueEncoder<DocumentAttrs["meta"], string> = {
+  encode: (value) => JSON.stringify(value),
+  decode: (value) => JSON.parse(value),
+};
+
+describe("Dirty tracking", () => {
+  const adapter = createMemoryAdapter<DocumentAttrs>({ primaryKey: "autoincrement" });
+  let saved: ModelChanges<DocumentAttrs>[] = [];
+
+  @Persistence<DocumentAttrs>(adapter, { meta: { encoder: jsonEncoder } }, {
+    postSave: async (_context, model) => { saved.push(model.previousChanges); },
+  })
+  class Document extends Model<DocumentAttrs> {}
+
+  let document: Document;
+
+  beforeEach(async () => {
+    adapter.reset();
+    const id = (await new Document({ title: "Draft", meta: { tags: ["a"], draft: true }, publishedAt: null }).save()).get("id");
+    document = (await Document.get(id))!;
+    saved = [];
+  });
+
+  it("should report changes with their original values", () => {
+    document.set("title", "Final");
+    document.set("title", "Final!");
+    assert.equal(document.wasChanged("title"), true);
+    assert.equal(document.wasChanged("meta"), false);
+    assert.deepEqual(document.getChanges(), { title: ["Draft", "Final!"] });
+  });
+
+  it("should unmark fields set back to their original value", () => {
+    document.set("title", "Draft");
+    document.set({ meta: { tags: ["a"], draft: true } });
+    assert.deepEqual(document.getChangedFields(), []);
+
+    document.set("meta", { tags: ["a", "b"], draft: true });
+    document.set("meta", { draft: true, tags: ["a"] });
+    assert.deepEqual(document.getChanges(), {});
+  });
+
+  it("should revert one or all fields", () => {
+    document.set({ title: "Final", publishedAt: new Date() });
+    document.revert("title");
+    assert.equal(document.get("title"), "Draft");
+    assert.deepEqual(document.getChangedFields(), ["publishedAt"]);
+
+    document.revert();
+    assert.equal(document.get("publishedAt"), null);
+    assert.deepEqual(document.getChanges(), {});
+  });
+
+  it("should detect values changed in place and set again", async () => {
+    const meta = document.get("meta");
+    meta.tags.push("b");
+    document.set("meta", meta);
+    assert.deepEqual(document.getChanges(), { meta: [{ tags: ["a"], draft: true }, { tags: ["a", "b"], draft: true }] });
+    await document.save();
+    assert.deepEqual((await Document.get(document.get("id")))!.get("meta"), { tags: ["a", "b"], draft: true });
+
+    document.get("meta").tags.push("c");
+    document.set("meta", document.get("meta"));
+    document.revert("meta");
+    assert.deepEqual(document.get("meta"), { tags: ["a", "b"], draft: true });
+  });
+
+  it("should make the saved changes available in postSave", async () => {
+    document.set("title", "Final");
+    await document.save();
+    assert.deepEqual(saved, [{ title: ["Draft", "Final"] }]);
+    assert.deepEqual(document.previousChanges, { title: ["Draft", "Final"] });
+    assert.deepEqual(document.getChanges(), {});
+
+    document.set("title", "Draft");
+    assert.deepEqual(document.getChanges(), { title: ["Final", "Draft"] });
+  });
+
+  it("should track every field of new models", () => {
+    const fresh = new Document({ title: "New", meta: { tags: [], draft: true } });
+    assert.deepEqual(fresh.getChanges(), { title: [undefined, "New"], meta: [undefined, { tags: [], draft: true }] });
+    fresh.revert("title");
+    assert.equal("title" in fresh.getChanges(), false);
+  });
+});
+
+describe("valuesEqual", () => {
+  it("should compare dates, arrays and plain objects deeply", () => {
+    assert.equal(valuesEqual(new Date(1), new Date(1)), true);
+    assert.equal(valuesEqual({ a: [1, { b: null }] }, { a: [1, { b: null }] }), true);
+    assert.equal(valuesEqual(NaN, NaN), true);
+    assert.equal(valuesEqual({ a: 1 }, { a: 1, b: undefined }), false);
+    assert.equal(valuesEqual([1, 2], [2, 1]), false);
+    assert.equal(valuesEqual(null, undefined), false);
+    assert.equal(valuesEqual(new Map(), new Map()), false);
+  });
+});
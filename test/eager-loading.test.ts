@@ -0,0 +1,136 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AdapterConfig,
+  BelongsTo,
+  belongsTo,
+  createMemoryAdapter,
+  HasMany,
+  hasMany,
+  HasOne,
+  hasOne,
+  MemoryAdapter,
+  Model,
+  ModelAttributes,
+  Persistence,
+} from "../src";
+
+type AuthorAttrs = { id?: number; name: string };
+type ProfileAttrs = { id?: number; authorId?: number; bio: string };
+type PostAttrs = { id?: number; authorId?: number | null; title: string };
+type CommentAttrs = { id?: number; postId?: number; body: string };
+
+const queries: string[] = [];
+const loaded: string[] = [];
+
+function counted<T extends ModelAttributes>(name: string, adapter: MemoryAdapter<T>): AdapterConfig<T> {
+  return {
+    ...adapter,
+    select: (context, query) => {
+      queries.push(name);
+      return adapter.select!(context, query);
+    },
+  };
+}
+
+const authors = createMemoryAdapter<AuthorAttrs>({ primaryKey: "autoincrement" });
+const profiles = createMemoryAdapter<ProfileAttrs>({ primaryKey: "autoincrement" });
+const posts = createMemoryAdapter<PostAttrs>({ primaryKey: "autoincrement" });
+const comments = createMemoryAdapter<CommentAttrs>({ primaryKey: "autoincrement" });
+
+@Persistence<AuthorAttrs>(counted("authors", authors), {}, {
+  relations: { profile: hasOne(() => Profile) },
+  postLoad: async (_context, model) => { loaded.push(`author:${model.get("name")}`); },
+})
+class Author extends Model<AuthorAttrs> {
+  declare profile: HasOne<Profile>;
+}
+
+@Persistence<ProfileAttrs>(counted("profiles", profiles))
+class Profile extends Model<ProfileAttrs> {}
+
+@Persistence<PostAttrs>(counted("posts", posts), {}, {
+  relations: {
+    author: belongsTo(() => Author),
+    comments: hasMany(() => Comment),
+  },
+  postLoad: async (_context, model) => { loaded.push(`post:${model.get("title")}`); },
+})
+class Post extends Model<PostAttrs> {
+  declare author: BelongsTo<Author>;
+  declare comments: HasMany<Comment>;
+}
+
+@Persistence<CommentAttrs>(counted("comments", comments), {}, {
+  postLoad: async (_context, model) => { loaded.push(`comment:${model.get("body")}`); },
+})
+class Comment extends Model<CommentAttrs> {}
+
+describe("Eager loading", () => {
+  beforeEach(async () => {
+    for (const adapter of [authors, profiles, posts, comments]) adapter.reset();
+
+    const ann = await new Author({ name: "Ann" }).save();
+    const bob = await new Author({ name: "Bob" }).save();
+    await new Profile({ authorId: ann.get("id"), bio: "Writer" }).save();
+
+    const first = await new Post({ title: "First", authorId: ann.get("id") }).save();
+    await new Post({ title: "Second", authorId: ann.get("id") }).save();
+    await new Post({ title: "Third", authorId: bob.get("id") }).save();
+    await new Post({ title: "Orphan", authorId: null }).save();
+
+    await new Comment({ postId: first.get("id"), body: "Nice" }).save();
+    await new Comment({ postId: first.get("id"), body: "Agreed" }).save();
+
+    queries.length = 0;
+    loaded.length = 0;
+  });
+
+  it("should load each relation with one query and attach the results", async () => {
+    const result = await Post.include("author", "comments").orderBy("id").all();
+    assert.deepEqual(queries, ["posts", "authors", "comments"]);
+
+    const [first, second, third, orphan] = result;
+    assert.equal(first?.author.get()?.get("name"), "Ann");
+    assert.equal(second?.author.get()?.get("name"), "Ann");
+    assert.equal(first?.author.get(), second?.author.get());
+    assert.equal(third?.author.get()?.get("name"), "Bob");
+    assert.equal(orphan?.author.get(), null);
+    assert.equal(orphan?.author.loaded, true);
+
+    assert.deepEqual(first?.comments.get()?.map((comment) => comment.get("body")), ["Nice", "Agreed"]);
+    assert.deepEqual(third?.comments.get(), []);
+    assert.equal(queries.length, 3);
+  });
+
+  it("should run postLoad hooks for parent and related models", async () => {
+    await Post.where({ title: "First" }).include("author", "comments").all();
+    assert.deepEqual(loaded, ["post:First", "author:Ann", "comment:Nice", "comment:Agreed"]);
+  });
+
+  it("should load hasOne relations", async () => {
+    const [ann, bob] = await Author.include("profile").orderBy("name").all();
+    assert.deepEqual(queries, ["authors", "profiles"]);
+    assert.equal(ann?.profile.get()?.get("bio"), "Writer");
+    assert.equal(bob?.profile.get(), null);
+  });
+
+  it("should not query relations when there are no results", async () => {
+    const result = await Post.where({ title: "Missing" }).include("author", "comments").all();
+    assert.deepEqual(result, []);
+    assert.deepEqual(queries, ["posts"]);
+  });
+
+  it("should keep includes through other builder calls", async () => {
+    const post = await Post.include("author").where({ title: "Third" }).first();
+    assert.equal(post?.author.get()?.get("name"), "Bob");
+    assert.equal(post?.comments.loaded, false);
+  });
+
+  it("should reject unknown relations", async () => {
+    // @ts-expect-error - title is a field, not a relation
+    await assert.rejects(() => Post.include("title").all(), /Unknown relation: title/);
+    // @ts-expect-error - not a relation of Post
+    void Post.where().include("profile");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryAdapter, Model, ModelEvent, ModelEventError, modelEvents, Persistence } from "../src";
+
+type CityAttrs = {
+  id?: number;
+  name: string;
+  population: number;
+  deletedAt?: Date | null;
+}
+
+describe("Model events", () => {
+  const adapter = createMemoryAdapter<CityAttrs>({ primaryKey: "autoincrement" });
+
+  @Persistence<CityAttrs>(adapter)
+  class City extends Model<CityAttrs> {}
+
+  class Capital extends City {}
+
+  @Persistence<CityAttrs>(adapter, {}, { softDelete: true })
+  class Town extends Model<CityAttrs> {}
+
+  let events: ModelEvent[] = [];
+
+  beforeEach(() => {
+    adapter.reset();
+    events = [];
+  });
+
+  afterEach(() => {
+    modelEvents.clear();
+  });
+
+  it("should emit insert, update, load and delete events to global listeners", async () => {
+    modelEvents.on("*", (event) => { events.push(event); });
+
+    const city = await new City({ name: "Lyon", population: 500 }).save();
+    city.set("population", 520);
+    await city.save();
+    const loaded = await City.get(city.get("id"));
+    await loaded!.del();
+
+    assert.deepEqual(events.map((event) => event.type), ["insert", "update", "load", "delete"]);
+    assert.deepEqual(events[0]?.changedFields, ["name", "population"]);
+    assert.deepEqual(events[1]?.changes, { population: [500, 520] });
+    assert.equal(events[1]?.model, city);
+    assert.equal(events[1]?.modelClass, City);
+    assert.equal(events[3]?.deleteType, "hard");
+  });
+
+  it("should filter by type and model class, including subclasses", async () => {
+    const names: string[] = [];
+    modelEvents.on(City, "insert", (event) => { names.push(event.model.get("name")); });
+    modelEvents.on("update", () => { names.push("update"); });
+
+    await new City({ name: "Lyon", population: 1 }).save();
+    await new Capital({ name: "Paris", population: 2 }).save();
+    await new Town({ name: "Albi", population: 3, deletedAt: null }).save();
+    assert.deepEqual(names, ["Lyon", "Paris"]);
+  });
+
+  it("should report the deletion time of soft deletes", async () => {
+    modelEvents.on(Town, "delete", (event) => { events.push(event); });
+    const town = await new Town({ name: "Albi", population: 3, deletedAt: null }).save();
+    await town.del();
+
+    assert.equal(events[0]?.deleteType, "soft");
+    assert.deepEqual(events[0]?.changedFields, ["deletedAt"]);
+    assert.equal(events[0]?.changes.deletedAt?.[0], null);
+  });
+
+  it("should await listeners in order", async () => {
+    const order: string[] = [];
+    modelEvents.on("insert", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      order.push("slow");
+    });
+    modelEvents.on("insert", () => { order.push("fast"); });
+
+    await new City({ name: "Lyon", population: 1 }).save();
+    assert.deepEqual(order, ["slow", "fast"]);
+  });
+
+  it("should run every listener and then throw their errors", async () => {
+    let ran = false;
+    modelEvents.on("insert", () => { throw new Error("index down"); });
+    const unsubscribe = modelEvents.on("insert", () => { ran = true; });
+
+    const city = new City({ name: "Lyon", population: 1 });
+    await assert.rejects(() => city.save(), (err: unknown) => {
+      assert.ok(err instanceof ModelEventError);
+      assert.equal(err.message, "1 listener(s) failed on insert of City: index down");
+      assert.equal(err.event.model, city);
+      return true;
+    });
+    assert.equal(ran, true);
+    assert.equal(city.persisted, false);
+    assert.deepEqual(await City.all(), []);
+
+    ran = false;
+    unsubscribe();
+    await assert.rejects(() => new City({ name: "Nice", population: 1 }).save(), ModelEventError);
+    assert.equal(ran, false);
+  });
+});
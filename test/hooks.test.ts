@@ -0,0 +1,128 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChangeType, createMemoryAdapter, DeleteType, Model, Persistence, SaveType, transaction } from "../src";
+
+type PostAttrs = {
+  id?: number;
+  title: string;
+  locked?: boolean;
+  deletedAt?: Date | null;
+}
+
+describe("Lifecycle hooks", () => {
+  const adapter = createMemoryAdapter<PostAttrs>({ primaryKey: "autoincrement" });
+  let events: string[] = [];
+  const record = (event: string) => async () => { events.push(event); };
+
+  @Persistence<PostAttrs>(adapter, {}, {
+    preSave: [record("preSave:1"), record("preSave:2")],
+    preInsert: record("preInsert"),
+    preUpdate: record("preUpdate"),
+    preValidate: async (_context, model) => {
+      events.push("preValidate");
+      model.set("title", model.get("title").trim());
+    },
+    postInsert: record("postInsert"),
+    postUpdate: record("postUpdate"),
+    postSave: record("postSave"),
+    postLoad: record("postLoad"),
+    preDelete: async (_context, model, type) => {
+      events.push(`preDelete:${type}`);
+      return !model.get("locked");
+    },
+    postDelete: async (_context, _model, type) => { events.push(`postDelete:${type}`); },
+    afterCommit: async (_model, type) => { events.push(`afterCommit:${type}`); },
+  })
+  class Post extends Model<PostAttrs> {
+    protected override async preSave(_context: any, type: SaveType) {
+      events.push(`method:preSave:${type}`);
+    }
+
+    protected override async preDelete(_context: any, _type: DeleteType) {
+      events.push("method:preDelete");
+    }
+
+    protected override async afterCommit(type: ChangeType) {
+      events.push(`method:afterCommit:${type}`);
+    }
+  }
+
+  @Persistence<PostAttrs>(adapter, {}, {
+    softDelete: true,
+    preDelete: async (_context, model) => {
+      events.push("preDelete:soft");
+      return model.get("locked") ? false : undefined;
+    },
+    postDelete: async (_context, _model, type) => { events.push(`postDelete:${type}`); },
+  })
+  class Draft extends Model<PostAttrs> {}
+
+  beforeEach(() => {
+    adapter.reset();
+    events = [];
+  });
+
+  it("should run insert hooks in order, model methods first", async () => {
+    const post = await new Post({ title: "  Hello  " }).save();
+    assert.equal(post.get("title"), "Hello");
+    assert.deepEqual(events, [
+      "method:preSave:insert", "preSave:1", "preSave:2", "preInsert", "preValidate",
+      "postInsert", "postSave", "method:afterCommit:insert", "afterCommit:insert",
+    ]);
+  });
+
+  it("should run update and load hooks", async () => {
+    const id = (await new Post({ title: "Hello" }).save()).get("id");
+    const post = (await Post.get(id))!;
+    assert.equal(events[events.length - 1], "postLoad");
+    events = [];
+
+    post.set("title", "Hello again");
+    await post.save();
+    assert.deepEqual(events, [
+      "method:preSave:update", "preSave:1", "preSave:2", "preUpdate", "preValidate",
+      "postUpdate", "postSave", "method:afterCommit:update", "afterCommit:update",
+    ]);
+  });
+
+  it("should let preDelete cancel a delete", async () => {
+    const post = await new Post({ title: "Keep", locked: true }).save();
+    events = [];
+
+    assert.equal(await post.del(), false);
+    assert.deepEqual(events, ["method:preDelete", "preDelete:hard"]);
+    assert.ok(await Post.get(post.get("id")));
+
+    post.set("locked", false);
+    await post.save();
+    events = [];
+    assert.equal(await post.del(), true);
+    assert.deepEqual(events, ["method:preDelete", "preDelete:hard", "postDelete:hard", "method:afterCommit:delete", "afterCommit:delete"]);
+  });
+
+  it("should let preDelete cancel a soft delete", async () => {
+    const draft = await new Draft({ title: "Keep", locked: true, deletedAt: null }).save();
+    assert.equal(await draft.del(), false);
+    assert.equal(draft.deleted, false);
+
+    draft.set("locked", false);
+    await draft.save();
+    assert.equal(await draft.del(), true);
+    assert.deepEqual(events, ["preDelete:soft", "preDelete:soft", "postDelete:soft"]);
+  });
+
+  it("should run afterCommit hooks once the transaction commits", async () => {
+    await transaction(async () => {
+      await new Post({ title: "Inside" }).save();
+      assert.equal(events.indexOf("afterCommit:insert"), -1);
+    });
+    assert.deepEqual(events.slice(-2), ["method:afterCommit:insert", "afterCommit:insert"]);
+
+    events = [];
+    await assert.rejects(() => transaction(async () => {
+      await new Post({ title: "Rolled back" }).save();
+      throw new Error("rollback");
+    }));
+    assert.equal(events.indexOf("afterCommit:insert"), -1);
+  });
+});
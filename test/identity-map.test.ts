@@ -0,0 +1,106 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryAdapter, currentIdentityMap, Model, Persistence, withIdentityMap } from "../src";
+
+type PersonAttrs = {
+  id?: number;
+  name: string;
+  age: number;
+  deletedAt?: Date | null;
+}
+
+describe("Identity map", () => {
+  const adapter = createMemoryAdapter<PersonAttrs>({ primaryKey: "autoincrement" });
+  let loads = 0;
+
+  @Persistence<PersonAttrs>(adapter, {}, {
+    postLoad: async () => { loads++; },
+  })
+  class Person extends Model<PersonAttrs> {}
+
+  @Persistence<PersonAttrs>(adapter, {}, { softDelete: true })
+  class Member extends Model<PersonAttrs> {}
+
+  let id: number;
+
+  beforeEach(async () => {
+    adapter.reset();
+    loads = 0;
+    id = (await new Person({ name: "Ada", age: 36 }).save()).get("id")!;
+  });
+
+  it("should return independent instances outside a scope", async () => {
+    assert.notEqual(await Person.get(id), await Person.get(id));
+    assert.equal(currentIdentityMap(), undefined);
+  });
+
+  it("should return the same instance for every load in a scope", async () => {
+    await withIdentityMap(async () => {
+      const person = await Person.get(id);
+      person!.set("age", 37);
+
+      assert.equal(await Person.get(id), person);
+      assert.equal(await Person.getBy({ name: "Ada" }), person);
+      assert.equal((await Person.all())[0], person);
+      assert.equal(await Person.where({ age: 36 }).first(), person);
+      assert.equal(person!.get("age"), 37);
+      assert.equal(loads, 1);
+    });
+  });
+
+  it("should keep instances of different classes apart", async () => {
+    await withIdentityMap(async () => {
+      const person = await Person.get(id);
+      const member = await Member.get(id);
+      assert.ok(member instanceof Member);
+      assert.notEqual(member, person);
+    });
+  });
+
+  it("should register inserted models and unregister deleted ones", async () => {
+    await withIdentityMap(async (map) => {
+      const grace = await new Person({ name: "Grace", age: 45 }).save();
+      assert.equal(map.get(Person, grace.get("id")), grace);
+      assert.equal(await Person.get(grace.get("id")), grace);
+
+      await grace.del();
+      assert.equal(map.get(Person, grace.get("id")), undefined);
+      assert.equal(await Person.get(grace.get("id")), null);
+    });
+  });
+
+  it("should unregister soft-deleted models", async () => {
+    await withIdentityMap(async () => {
+      const member = await Member.get(id);
+      await member!.del();
+      const deleted = await Member.onlyDeleted().first();
+      assert.ok(deleted?.deleted);
+      assert.notEqual(deleted, member);
+    });
+  });
+
+  it("should reload models after bulk updates", async () => {
+    await withIdentityMap(async () => {
+      const person = await Person.get(id);
+      await Person.updateAll({ name: "Ada" }, { age: 40 });
+      const reloaded = await Person.get(id);
+      assert.notEqual(reloaded, person);
+      assert.equal(reloaded?.get("age"), 40);
+    });
+  });
+
+  it("should share the map with nested scopes and isolate concurrent ones", async () => {
+    const [first, second] = await Promise.all([
+      withIdentityMap(async (map) => {
+        const person = await Person.get(id);
+        await withIdentityMap(async (nested) => {
+          assert.equal(nested, map);
+          assert.equal(await Person.get(id), person);
+        });
+        return person;
+      }),
+      withIdentityMap(async () => Person.get(id)),
+    ]);
+    assert.notEqual(first, second);
+  });
+});
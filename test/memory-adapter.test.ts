@@ -0,0 +1,141 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { createMemoryAdapter, Model, Persistence } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type TaskAttrs = {
+  id?: number;
+  title: string;
+  owner: string | null;
+  done: number;
+}
+
+const adapter = createMemoryAdapter<TaskAttrs>({ primaryKey: "autoincrement" });
+
+@Persistence(adapter)
+class Task extends Model<TaskAttrs> {}
+
+describe("Memory adapter", () => {
+  beforeEach(() => {
+    adapter.reset();
+  });
+
+  it("should insert rows and assign autoincrement keys", async () => {
+    const first = await new Task({ title: "One", owner: "ann", done: 0 }).save();
+    const second = await new Task({ title: "Two", owner: null, done: 0 }).save();
+
+    assert.equal(first.get("id"), 1);
+    assert.equal(second.get("id"), 2);
+    assert.equal(first.persisted, true);
+  });
+
+  it("should get rows by primary key and by match", async () => {
+    const task = await new Task({ title: "Find me", owner: "bob", done: 0 }).save();
+
+    assert.equal((await Task.get(task.get("id")))?.get("title"), "Find me");
+    assert.equal((await Task.getBy({ owner: "bob" }))?.get("id"), task.get("id"));
+    assert.equal(await Task.get(404), null);
+    assert.equal(await Task.getBy({ owner: "nobody" }), null);
+  });
+
+  it("should throw from getBy when multiple rows match", async () => {
+    await new Task({ title: "A", owner: "ann", done: 0 }).save();
+    await new Task({ title: "B", owner: "ann", done: 0 }).save();
+    await assert.rejects(() => Task.getBy({ owner: "ann" }), /multiple results/);
+  });
+
+  it("should reject query strings", async () => {
+    await assert.rejects(() => Task.all("WHERE done = ?", [1]), /does not support query strings/);
+  });
+
+  it("should report unsuccessful updates and deletes of missing rows", async () => {
+    const context = await adapter.getContext();
+    const ghost = new Task({ id: 99, title: "Ghost", owner: null, done: 0 }, true);
+
+    assert.deepEqual(
+      await adapter.update(context, ghost, { title: "Boo" }),
+      { success: false, inserted: false, rows: 0, primaryKey: 99 }
+    );
+    assert.equal(await adapter.del(context, ghost), false);
+  });
+
+  it("should not share row objects with callers", async () => {
+    const task = await new Task({ title: "Original", owner: null, done: 0 }).save();
+    const context = await adapter.getContext();
+    const row = await adapter.get(context, task.get("id"));
+    row!.title = "Mutated";
+
+    assert.equal((await Task.get(task.get("id")))?.get("title"), "Original");
+  });
+
+  it("should snapshot and restore its contents", async () => {
+    await new Task({ title: "Kept", owner: null, done: 0 }).save();
+    const snapshot = adapter.snapshot();
+
+    const extra = await new Task({ title: "Extra", owner: null, done: 0 }).save();
+    assert.equal(extra.get("id"), 2);
+    assert.equal((await Task.all()).length, 2);
+
+    adapter.restore(snapshot);
+    assert.deepEqual((await Task.all()).map((task) => task.get("title")), ["Kept"]);
+    assert.equal((await new Task({ title: "Next", owner: null, done: 0 }).save()).get("id"), 2);
+  });
+
+  it("should use a custom primary key generator", async () => {
+    const custom = createMemoryAdapter<TaskAttrs>({ primaryKey: (data) => `task:${data.title}` });
+    const context = await custom.getContext();
+    const task = new Task({ title: "Custom", owner: null, done: 0 });
+    const result = await custom.insert(context, task, { title: "Custom" });
+
+    assert.equal(result.primaryKey, "task:Custom");
+    assert.equal(task.get("id") as unknown, "task:Custom");
+  });
+});
+
+describe("Memory adapter parity with SQLite", () => {
+  let db: SqliteDatabase;
+  const memory = createMemoryAdapter<TaskAttrs>({ primaryKey: "autoincrement" });
+  const sqlite = createSqliteAdapter<TaskAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "tasks",
+    primaryKey: "autoincrement",
+  });
+
+  const rows: TaskAttrs[] = [
+    { title: "A", owner: "ann", done: 0 },
+    { title: "B", owner: null, done: 1 },
+    { title: "C", owner: "ann", done: 1 },
+  ];
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE tasks (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, owner TEXT, done INTEGER)");
+    for (const attrs of rows) {
+      await memory.insert(await memory.getContext(), new Task(attrs), attrs);
+      await sqlite.insert(await sqlite.getContext(), new Task(attrs), attrs);
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  const matches: Partial<TaskAttrs>[] = [
+    {},
+    { owner: "ann" },
+    { owner: null },
+    { owner: "ann", done: 1 },
+    { done: 1, owner: undefined },
+    { title: "missing" },
+  ];
+
+  for (const match of matches) {
+    it(`should return the same rows for ${JSON.stringify(match)}`, async () => {
+      const fromMemory = await memory.all(await memory.getContext(), match);
+      const fromSqlite = await sqlite.all(await sqlite.getContext(), match);
+      assert.deepEqual(fromMemory, fromSqlite);
+    });
+  }
+});
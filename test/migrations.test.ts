@@ -0,0 +1,286 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { AppliedMigration, createMemoryAdapter, createMigrationFile, loadMigrations, Migration, MigrationStore, Migrator } from "../src";
+import { createSqliteAdapter, createSqliteMigrationStore, SqliteDatabase } from "../src/adapters/sqlite";
+import { runCli } from "../src/cli";
+
+function createArrayStore(): MigrationStore & { records: AppliedMigration[] } {
+  const records: AppliedMigration[] = [];
+  return {
+    records,
+    prepare: async () => {},
+    applied: async () => records.slice(),
+    record: async (_context, name, appliedAt) => { records.push({ name, appliedAt }); },
+    forget: async (_context, name) => { records.splice(records.findIndex((record) => record.name === name), 1); },
+  };
+}
+
+describe("Migrator", () => {
+  let calls: string[] = [];
+  const adapter = createMemoryAdapter();
+
+  function migration(name: string): Migration {
+    return {
+      name,
+      up: async () => { calls.push(`up ${name}`); },
+      down: async () => { calls.push(`down ${name}`); },
+    };
+  }
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it("should apply pending migrations in name order", async () => {
+    const store = createArrayStore();
+    const migrator = new Migrator({ adapter, store, migrations: [migration("20240102000000_b"), migration("20240101000000_a")] });
+
+    assert.deepEqual(await migrator.up(), ["20240101000000_a", "20240102000000_b"]);
+    assert.deepEqual(calls, ["up 20240101000000_a", "up 20240102000000_b"]);
+    assert.deepEqual(store.records.map((record) => record.name), ["20240101000000_a", "20240102000000_b"]);
+    assert.deepEqual(await migrator.up(), []);
+  });
+
+  it("should stop at a given migration", async () => {
+    const migrator = new Migrator({
+      adapter,
+      store: createArrayStore(),
+      migrations: [migration("20240101000000_a"), migration("20240102000000_b"), migration("20240103000000_c")],
+    });
+
+    assert.deepEqual(await migrator.up({ to: "20240102000000_b" }), ["20240101000000_a", "20240102000000_b"]);
+    await assert.rejects(() => migrator.up({ to: "nope" }), /Unknown migration: nope/);
+  });
+
+  it("should revert the latest migrations", async () => {
+    const store = createArrayStore();
+    const migrator = new Migrator({
+      adapter,
+      store,
+      migrations: [migration("20240101000000_a"), migration("20240102000000_b"), migration("20240103000000_c")],
+    });
+    await migrator.up();
+    calls = [];
+
+    assert.deepEqual(await migrator.down(), ["20240103000000_c"]);
+    assert.deepEqual(await migrator.down({ steps: 5 }), ["20240102000000_b", "20240101000000_a"]);
+    assert.deepEqual(calls, ["down 20240103000000_c", "down 20240102000000_b", "down 20240101000000_a"]);
+    assert.deepEqual(store.records, []);
+    assert.deepEqual(await migrator.down(), []);
+  });
+
+  it("should report applied, pending and missing migrations", async () => {
+    const store = createArrayStore();
+    store.records.push({ name: "20230101000000_removed", appliedAt: new Date("2023-01-01T00:00:00Z") });
+    const migrator = new Migrator({ adapter, store, migrations: [migration("20240101000000_a"), migration("20240102000000_b")] });
+    await migrator.up({ to: "20240101000000_a" });
+
+    const status = await migrator.status();
+    assert.deepEqual(status.map(({ name, state }) => ({ name, state })), [
+      { name: "20230101000000_removed", state: "missing" },
+      { name: "20240101000000_a", state: "applied" },
+      { name: "20240102000000_b", state: "pending" },
+    ]);
+    assert.ok(status[1]?.appliedAt instanceof Date);
+    await migrator.down();
+    await assert.rejects(() => migrator.down(), /Cannot revert migration 20230101000000_removed/);
+  });
+
+  it("should not record a failing migration", async () => {
+    const store = createArrayStore();
+    const failing: Migration = { name: "20240102000000_fail", up: async () => { throw new Error("boom"); }, down: async () => {} };
+    const migrator = new Migrator({ adapter, store, migrations: [migration("20240101000000_a"), failing] });
+
+    await assert.rejects(() => migrator.up(), /boom/);
+    assert.deepEqual(store.records.map((record) => record.name), ["20240101000000_a"]);
+  });
+});
+
+describe("Migrations (SQLite)", () => {
+  let directory: string;
+  let db: SqliteDatabase;
+  let migrator: Migrator;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "tiny-ar-migrations-"));
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+
+    const first = await createMigrationFile(directory, "Create people", { extension: "ts", now: new Date("2024-01-01T00:00:00Z") });
+    await fs.writeFile(first, `
+export async function up(context: any) { await context.db.run("CREATE TABLE people (id INTEGER PRIMARY KEY, name TEXT)"); }
+export async function down(context: any) { await context.db.run("DROP TABLE people"); }
+`);
+    await fs.writeFile(path.join(directory, "20240102000000_broken.js"), `
+export async function up(context) {
+  await context.db.run("CREATE TABLE pets (id INTEGER PRIMARY KEY)");
+  await context.db.run("NOT SQL");
+}
+export async function down() {}
+`);
+    await fs.writeFile(path.join(directory, "README.md"), "not a migration");
+
+    migrator = new Migrator({
+      adapter: createSqliteAdapter({ database: db, tableName: "people" }),
+      store: createSqliteMigrationStore(),
+      migrations: () => loadMigrations(directory),
+    });
+  });
+
+  after(async () => {
+    await db.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function tables() {
+    const rows = await db.all<{ name: string }[]>("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+    return rows.map((row) => row.name);
+  }
+
+  it("should load timestamped files in order", async () => {
+    const migrations = await loadMigrations(directory);
+    assert.deepEqual(migrations.map((migration) => migration.name), ["20240101000000_create_people", "20240102000000_broken"]);
+    assert.deepEqual(await loadMigrations(path.join(directory, "missing")), []);
+  });
+
+  it("should roll back a failing migration with its schema changes", async () => {
+    await assert.rejects(() => migrator.up(), /syntax error/);
+    assert.deepEqual(await tables(), ["people", "schema_migrations"]);
+    assert.deepEqual((await migrator.status()).map((status) => status.state), ["applied", "pending"]);
+  });
+
+  it("should revert migrations and their records", async () => {
+    assert.deepEqual(await migrator.down(), ["20240101000000_create_people"]);
+    assert.deepEqual(await tables(), ["schema_migrations"]);
+    assert.deepEqual(await db.all("SELECT * FROM schema_migrations"), []);
+  });
+});
+
+describe("Migration CLI", () => {
+  let cwd: string;
+  let output: string[];
+  let errors: string[];
+
+  const run = (...args: string[]) => runCli(args, { cwd, log: (message) => output.push(message), error: (message) => errors.push(message) });
+
+  before(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), "tiny-ar-cli-"));
+    const sqliteModule = path.resolve(__dirname, "../src/adapters/sqlite");
+    await fs.writeFile(path.join(cwd, "tiny-activerecord.config.ts"), `
+import { createSqliteAdapter, createSqliteMigrationStore } from ${JSON.stringify(sqliteModule)};
+
+export default {
+  migrationsDirectory: "db/migrations",
+  migrationExtension: "ts",
+  adapter: createSqliteAdapter({ filename: ${JSON.stringify(path.join(cwd, "app.db"))}, tableName: "schema_migrations" }),
+  store: createSqliteMigrationStore(),
+};
+`);
+  });
+
+  after(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    output = [];
+    errors = [];
+  });
+
+  it("should create, apply, list and revert migrations", async () => {
+    assert.equal(await run("migrate", "create", "add", "notes!"), 0);
+    const [, created] = /^Created (.+)$/.exec(output[0] ?? "")!;
+    assert.match(created!, /^db\/migrations\/\d{14}_add_notes\.ts$/);
+    const name = path.basename(created!, ".ts");
+
+    assert.equal(await run("migrate", "status"), 0);
+    assert.deepEqual(output.slice(1), [`pending  ${name}`]);
+
+    assert.equal(await run("migrate", "up"), 0);
+    assert.equal(output[2], `Applied ${name}`);
+    assert.equal(await run("migrate", "up"), 0);
+    assert.equal(output[3], "No pending migrations");
+
+    assert.equal(await run("migrate", "status"), 0);
+    assert.match(output[4]!, new RegExp(`^applied  ${name}  \\d{4}-`));
+
+    assert.equal(await run("migrate", "down", "--steps", "1"), 0);
+    assert.equal(output[5], `Reverted ${name}`);
+    assert.deepEqual(errors, []);
+  });
+
+  it("should report usage and errors", async () => {
+    assert.equal(await run("seed"), 1);
+    assert.match(errors[0]!, /^Usage: ts-tiny-activerecord migrate/);
+    assert.equal(await run("migrate", "sideways"), 1);
+    assert.match(errors[1]!, /^Unknown command: sideways/);
+    assert.equal(await run("migrate", "down", "--steps", "0"), 1);
+    assert.equal(errors[2], "--steps must be a positive integer");
+    assert.equal(await run("migrate", "status", "--config", "missing.js"), 1);
+    assert.equal(errors[3], "Config file not found: missing.js");
+  });
+});
+
+describe("Migration CLI (built binary)", () => {
+  const root = path.resolve(__dirname, "..");
+  let outDir: string;
+  let cwd: string;
+
+  const run = (...args: string[]) => new Promise<{ code: number | null; stdout: string; stderr: string }>((resolve, reject) => {
+    // the build lives outside the package, so its requires of sqlite and sqlite3 resolve with NODE_PATH
+    const env = { ...process.env, NODE_PATH: path.join(root, "node_modules") };
+    execFile(process.execPath, [path.join(outDir, "bin.js"), ...args], { cwd, env }, (err, stdout, stderr) => {
+      if (err && typeof err.code !== "number") reject(err);
+      else resolve({ code: err ? err.code as number : 0, stdout, stderr });
+    });
+  });
+
+  before(async () => {
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), "tiny-ar-build-"));
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), "tiny-ar-bin-"));
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        process.execPath,
+        [require.resolve("typescript/bin/tsc"), "-p", root, "--outDir", outDir, "--declaration", "false", "--sourceMap", "false"],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+    const sqliteModule = pathToFileURL(path.join(outDir, "adapters/sqlite.js")).href;
+    await fs.writeFile(path.join(cwd, "tiny-activerecord.config.mjs"), `
+import { createSqliteAdapter, createSqliteMigrationStore } from ${JSON.stringify(sqliteModule)};
+
+export default {
+  adapter: createSqliteAdapter({ filename: ${JSON.stringify(path.join(cwd, "app.db"))}, tableName: "schema_migrations" }),
+  store: createSqliteMigrationStore(),
+};
+`);
+  });
+
+  after(async () => {
+    await fs.rm(outDir, { recursive: true, force: true });
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should run with node and create JavaScript migrations", async () => {
+    const created = await run("migrate", "create", "create notes");
+    assert.equal(created.code, 0, created.stderr);
+    const file = /^Created (.+)$/m.exec(created.stdout)![1]!;
+    assert.match(file, /^migrations\/\d{14}_create_notes\.mjs$/);
+    await fs.writeFile(path.join(cwd, file), `
+export async function up(context) { await context.db.run("CREATE TABLE notes (id INTEGER PRIMARY KEY)"); }
+export async function down(context) { await context.db.run("DROP TABLE notes"); }
+`);
+
+    const applied = await run("migrate", "up");
+    assert.equal(applied.code, 0, applied.stderr);
+    assert.equal(applied.stdout.trim(), `Applied ${path.basename(file, ".mjs")}`);
+    const status = await run("migrate", "status");
+    assert.match(status.stdout, /^applied  \d{14}_create_notes  /);
+  });
+});
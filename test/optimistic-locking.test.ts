@@ -0,0 +1,108 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { AdapterConfig, createMemoryAdapter, Model, Persistence, StaleModelError } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type ItemAttrs = {
+  id?: number;
+  name: string;
+  stock: number;
+  version?: number;
+  deletedAt?: Date | null;
+}
+
+function describeOptimisticLocking(
+  name: string,
+  createAdapter: () => Promise<AdapterConfig<ItemAttrs>>,
+  reset: () => Promise<void>,
+  cleanup: () => Promise<void>
+) {
+  describe(name, () => {
+    class Item extends Model<ItemAttrs> {}
+    class ArchivedItem extends Model<ItemAttrs> {}
+
+    before(async () => {
+      const adapter = await createAdapter();
+      Persistence<ItemAttrs>(adapter, {}, { optimisticLocking: true })(Item);
+      Persistence<ItemAttrs>(adapter, {}, { optimisticLocking: true, softDelete: true })(ArchivedItem);
+    });
+
+    beforeEach(reset);
+
+    after(cleanup);
+
+    it("should start at version 0 and increment on every update", async () => {
+      const item = await new Item({ name: "Widget", stock: 1 }).save();
+      assert.equal(item.get("version"), 0);
+
+      item.set("stock", 2);
+      await item.save();
+      assert.equal(item.get("version"), 1);
+      assert.deepEqual(item.getChangedFields(), []);
+      assert.equal((await Item.get(item.get("id")))?.get("version"), 1);
+    });
+
+    it("should throw StaleModelError when another save won", async () => {
+      const id = (await new Item({ name: "Widget", stock: 10 }).save()).get("id");
+      const first = (await Item.get(id))!;
+      const second = (await Item.get(id))!;
+
+      first.set("stock", 9);
+      await first.save();
+
+      second.set("stock", 8);
+      await assert.rejects(() => second.save(), (err: unknown) => {
+        assert.ok(err instanceof StaleModelError);
+        assert.equal(err.model, second);
+        return true;
+      });
+      assert.equal(second.get("version"), 0);
+      assert.equal((await Item.get(id))?.get("stock"), 9);
+    });
+
+    it("should check the version on delete", async () => {
+      const id = (await new Item({ name: "Widget", stock: 10 }).save()).get("id");
+      const first = (await Item.get(id))!;
+      const second = (await Item.get(id))!;
+
+      first.set("stock", 9);
+      await first.save();
+
+      await assert.rejects(() => second.del(), StaleModelError);
+      assert.equal(await first.del(), true);
+      await assert.rejects(() => first.del(), StaleModelError);
+    });
+
+    it("should check and increment the version on soft delete", async () => {
+      const id = (await new ArchivedItem({ name: "Widget", stock: 10, deletedAt: null }).save()).get("id");
+      const first = (await ArchivedItem.get(id))!;
+      const second = (await ArchivedItem.get(id))!;
+
+      await first.del();
+      assert.equal(first.get("version"), 1);
+      await assert.rejects(() => second.del(), StaleModelError);
+    });
+  });
+}
+
+const memory = createMemoryAdapter<ItemAttrs>({ primaryKey: "autoincrement" });
+describeOptimisticLocking(
+  "Optimistic locking (memory)",
+  async () => memory,
+  async () => memory.reset(),
+  async () => {}
+);
+
+let db: SqliteDatabase;
+describeOptimisticLocking(
+  "Optimistic locking (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, stock INTEGER, version INTEGER, deleted_at TEXT)");
+    return createSqliteAdapter<ItemAttrs>({ database: db, tableName: "items", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.run("DELETE FROM items"); },
+  async () => { await db.close(); }
+);
@@ -0,0 +1,143 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { newDb } from "pg-mem";
+import { AdapterConfig, createMemoryAdapter, InvalidCursorError, Model, Persistence } from "../src";
+import { createPostgresAdapter } from "../src/adapters/postgres";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type ArticleAttrs = {
+  id?: number;
+  title: string;
+  score: number;
+  publishedAt: Date;
+}
+
+const articles: ArticleAttrs[] = [
+  { title: "A", score: 5, publishedAt: new Date("2024-01-01T00:00:00Z") },
+  { title: "B", score: 3, publishedAt: new Date("2024-01-02T00:00:00Z") },
+  { title: "C", score: 5, publishedAt: new Date("2024-01-03T00:00:00Z") },
+  { title: "D", score: 1, publishedAt: new Date("2024-01-04T00:00:00Z") },
+  { title: "E", score: 3, publishedAt: new Date("2024-01-05T00:00:00Z") },
+  { title: "F", score: 5, publishedAt: new Date("2024-01-06T00:00:00Z") },
+  { title: "G", score: 2, publishedAt: new Date("2024-01-07T00:00:00Z") },
+];
+
+function titles(models: Model<ArticleAttrs>[]) {
+  return models.map((model) => model.get("title")).join("");
+}
+
+function describePagination(name: string, createAdapter: () => Promise<AdapterConfig<ArticleAttrs>>, cleanup: () => Promise<void>) {
+  describe(name, () => {
+    class Article extends Model<ArticleAttrs> {}
+
+    before(async () => {
+      Persistence<ArticleAttrs>(await createAdapter(), {
+        publishedAt: { encoder: { encode: (value: Date) => value.toISOString(), decode: (value: string) => new Date(value) } },
+      })(Article);
+      await Article.insertMany(articles.map((attrs) => new Article(attrs)));
+    });
+
+    after(cleanup);
+
+    it("should return numbered pages with the total", async () => {
+      const first = await Article.paginate({ page: 1, perPage: 3 });
+      assert.equal(titles(first.models), "ABC");
+      assert.deepEqual([first.page, first.perPage, first.total, first.totalPages, first.hasMore], [1, 3, 7, 3, true]);
+      assert.equal(first.previousCursor, null);
+
+      const last = await Article.where({ score: { gte: 2 } }).orderBy("title", "desc").paginate({ page: 2, perPage: 4 });
+      assert.equal(titles(last.models), "BA");
+      assert.deepEqual([last.total, last.totalPages, last.hasMore, last.nextCursor], [6, 2, false, null]);
+
+      const beyond = await Article.paginate({ page: 5, perPage: 3 });
+      assert.deepEqual([beyond.models.length, beyond.hasMore, beyond.total], [0, false, 7]);
+    });
+
+    it("should walk forward and back through cursor pages with ties", async () => {
+      const query = Article.where().orderBy("score", "desc");
+      const pages: string[] = [];
+      let page = await query.paginate({ perPage: 3 });
+      pages.push(titles(page.models));
+      assert.equal(page.previousCursor, null);
+      while (page.nextCursor) {
+        page = await query.paginate({ after: page.nextCursor, perPage: 3 });
+        pages.push(titles(page.models));
+      }
+      assert.deepEqual(pages, ["ACF", "BEG", "D"]);
+      assert.equal(page.hasMore, false);
+
+      const previous = await query.paginate({ before: page.previousCursor, perPage: 3 });
+      assert.equal(titles(previous.models), "BEG");
+      assert.equal(previous.hasMore, true);
+      const first = await query.paginate({ before: previous.previousCursor, perPage: 3 });
+      assert.equal(titles(first.models), "ACF");
+      assert.equal(first.previousCursor, null);
+    });
+
+    it("should continue cursor pages after inserts and deletes", async () => {
+      const query = Article.where().orderBy("publishedAt", "desc");
+      const first = await query.paginate({ perPage: 2 });
+      assert.equal(titles(first.models), "GF");
+
+      const inserted = await new Article({ title: "H", score: 4, publishedAt: new Date("2024-02-01T00:00:00Z") }).save();
+      await first.models[1]!.del();
+      try {
+        const second = await query.paginate({ after: first.nextCursor, perPage: 2 });
+        assert.equal(titles(second.models), "ED");
+      } finally {
+        await inserted.del();
+        await new Article({ ...articles[5]!, id: first.models[1]!.get("id") }).save();
+      }
+    });
+
+    it("should reject cursors of other orderings and invalid page options", async () => {
+      const page = await Article.where().orderBy("score").paginate({ perPage: 2 });
+      await assert.rejects(() => Article.paginate({ after: page.nextCursor }), InvalidCursorError);
+      await assert.rejects(() => Article.paginate({ after: "not a cursor" }), /Invalid cursor: it is malformed/);
+      await assert.rejects(() => Article.paginate({ page: 0 }), /page must be a positive integer/);
+      await assert.rejects(() => Article.paginate({ after: page.nextCursor, before: page.nextCursor }), /not both/);
+    });
+  });
+}
+
+describePagination(
+  "Pagination (memory)",
+  async () => createMemoryAdapter<ArticleAttrs>({ primaryKey: "autoincrement" }),
+  async () => {}
+);
+
+describePagination(
+  "Pagination (adapter without select)",
+  async () => {
+    const { select, count, selectAfter, ...adapter } = createMemoryAdapter<ArticleAttrs>({ primaryKey: "autoincrement" });
+    return adapter;
+  },
+  async () => {}
+);
+
+let db: SqliteDatabase;
+
+describePagination(
+  "Pagination (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE articles (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, score INTEGER, published_at TEXT)");
+    return createSqliteAdapter<ArticleAttrs>({ database: db, tableName: "articles", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.close(); }
+);
+
+let pool: any;
+
+describePagination(
+  "Pagination (PostgreSQL)",
+  async () => {
+    const { Pool } = newDb().adapters.createPg();
+    pool = new Pool();
+    await pool.query("CREATE TABLE articles (id SERIAL PRIMARY KEY, title TEXT, score INTEGER, published_at TEXT)");
+    return createPostgresAdapter<ArticleAttrs>({ pool, tableName: "articles", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await pool.end(); }
+);
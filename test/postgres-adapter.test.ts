@@ -0,0 +1,220 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { newDb } from "pg-mem";
+import { checkSchema, generateSchemaSql, Model, Persistence, transaction } from "../src";
+import { createPostgresAdapter, createPostgresMigrationStore } from "../src/adapters/postgres";
+
+type NoteAttrs = {
+  id?: number;
+  title: string;
+  bodyText: string | null;
+}
+
+function createPool() {
+  const { Pool } = newDb().adapters.createPg();
+  return new Pool();
+}
+
+describe("PostgreSQL adapter", () => {
+  const pool = createPool();
+  const statements: string[] = [];
+  let connections = 0;
+  let releases = 0;
+
+  // record the statements run on checked out clients, which only transactions use; pg-mem hands out
+  // the same client object again, so each is wrapped once
+  const wrapped = new WeakSet<object>();
+  const connect = pool.connect.bind(pool);
+  pool.connect = async () => {
+    const client = await connect();
+    connections++;
+    if (wrapped.has(client)) return client;
+    wrapped.add(client);
+    const clientQuery = client.query.bind(client);
+    const clientRelease = client.release.bind(client);
+    client.query = (sql: any, ...args: any[]) => {
+      statements.push(typeof sql === "string" ? sql : sql.text);
+      return clientQuery(sql, ...args);
+    };
+    client.release = (...args: any[]) => {
+      releases++;
+      return clientRelease(...args);
+    };
+    return client;
+  };
+
+  const adapter = createPostgresAdapter<NoteAttrs>({
+    pool: () => Promise.resolve(pool),
+    tableName: "order notes",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence(adapter)
+  class Note extends Model<NoteAttrs> {}
+
+  before(async () => {
+    await pool.query('CREATE TABLE "order notes" (id SERIAL PRIMARY KEY, title TEXT, body_text TEXT)');
+  });
+
+  after(async () => {
+    await pool.end();
+  });
+
+  it("should use the given pool as its context", async () => {
+    const context = await adapter.getContext();
+    assert.equal(context.pool, pool);
+    assert.equal(context.client, undefined);
+    assert.equal(await adapter.getContext(), context);
+  });
+
+  it("should populate serial primary keys with RETURNING", async () => {
+    const first = await new Note({ title: "First", bodyText: "one" }).save();
+    const second = await new Note({ title: "Second", bodyText: null }).save();
+    assert.equal(typeof first.get("id"), "number");
+    assert.equal(second.get("id"), first.get("id")! + 1);
+
+    const note = new Note({ title: "Third", bodyText: null });
+    const result = await adapter.insert(await adapter.getContext(), note, { title: "Third", bodyText: null });
+    assert.deepEqual(result, { success: true, inserted: true, rows: 1, primaryKey: second.get("id")! + 1 });
+    assert.equal(note.get("id"), result.primaryKey);
+  });
+
+  it("should map snake_case columns to camelCase fields", async () => {
+    const note = await new Note({ title: "Mapped", bodyText: "text" }).save();
+    const { rows } = await pool.query('SELECT * FROM "order notes" WHERE id = $1', [note.get("id")]);
+    assert.equal(rows[0].body_text, "text");
+    assert.equal((await Note.get(note.get("id")))?.get("bodyText"), "text");
+  });
+
+  it("should convert ? placeholders in raw queries", async () => {
+    await new Note({ title: "Why?", bodyText: "?" }).save();
+    const byClause = await Note.all("WHERE title = ? AND body_text = '?'", ["Why?"]);
+    assert.equal(byClause.length, 1);
+
+    const byStatement = await Note.all('SELECT * FROM "order notes" WHERE title = ? OR title = ?', ["Why?", "First"]);
+    assert.equal(byStatement.length, 2);
+
+    const numbered = await Note.all("WHERE title = $1", ["Why?"]);
+    assert.equal(numbered[0]?.get("bodyText"), "?");
+  });
+
+  it("should throw from getBy when multiple rows match", async () => {
+    await new Note({ title: "Duplicate", bodyText: "a" }).save();
+    await new Note({ title: "Duplicate", bodyText: "b" }).save();
+    await assert.rejects(() => Note.getBy({ title: "Duplicate" }), /multiple results/);
+    assert.equal(await Note.getBy({ title: "Missing" }), null);
+  });
+
+  it("should report unsuccessful updates and deletes of missing rows", async () => {
+    const context = await adapter.getContext();
+    const ghost = new Note({ id: 9999, title: "Ghost", bodyText: null }, true);
+
+    const result = await adapter.update(context, ghost, { title: "Still a ghost" });
+    assert.deepEqual(result, { success: false, inserted: false, rows: 0, primaryKey: 9999 });
+    assert.equal(await adapter.del(context, ghost), false);
+  });
+
+  it("should run transactions on one client and release it", async () => {
+    statements.length = 0;
+    connections = releases = 0;
+    await transaction(async () => {
+      await new Note({ title: "In a transaction", bodyText: null }).save();
+      await Note.all({ title: "In a transaction" });
+    });
+    assert.deepEqual([connections, releases], [1, 1]);
+    assert.equal(statements[0], "BEGIN");
+    assert.match(statements[1]!, /^INSERT INTO "order notes" \("title", "body_text"\) VALUES \(\$1, \$2\) RETURNING "id"/);
+    assert.equal(statements[statements.length - 1], "COMMIT");
+
+    statements.length = 0;
+    await assert.rejects(() => transaction(async () => {
+      await new Note({ title: "Rolled back", bodyText: null }).save();
+      throw new Error("rollback");
+    }));
+    assert.deepEqual([connections, releases], [2, 2]);
+    assert.equal(statements[statements.length - 1], "ROLLBACK");
+  });
+});
+
+describe("PostgreSQL schema and migrations", () => {
+  type AccountAttrs = {
+    id?: number;
+    email: string;
+    score: number;
+    active: boolean;
+    lastSeenAt: Date | null;
+  }
+
+  const pool = createPool();
+  const adapter = createPostgresAdapter<AccountAttrs>({ pool, tableName: "accounts", columnNaming: "snake", primaryKey: "autoincrement" });
+
+  @Persistence<AccountAttrs>(adapter, {
+    email: { type: "string", required: true, column: { unique: true } },
+    score: { type: "number", column: { type: "real", default: 0 } },
+    active: { type: "boolean", required: true, column: { default: true } },
+    lastSeenAt: { type: "date", column: { index: true } },
+  })
+  class Account extends Model<AccountAttrs> {}
+
+  after(async () => {
+    await pool.end();
+  });
+
+  it("should report a missing table", async () => {
+    const mismatches = await checkSchema(Account);
+    assert.deepEqual(mismatches.map((mismatch) => mismatch.kind), ["missing-table"]);
+  });
+
+  it("should generate PostgreSQL column types", async () => {
+    assert.deepEqual(generateSchemaSql(Account), [
+      `CREATE TABLE "accounts" (
+  "id" SERIAL PRIMARY KEY,
+  "email" TEXT NOT NULL UNIQUE,
+  "score" DOUBLE PRECISION DEFAULT 0,
+  "active" BOOLEAN NOT NULL DEFAULT TRUE,
+  "last_seen_at" TIMESTAMPTZ
+)`,
+      `CREATE INDEX "accounts_last_seen_at_index" ON "accounts" ("last_seen_at")`,
+    ]);
+    for (const sql of generateSchemaSql(Account)) {
+      await pool.query(sql);
+    }
+
+    const seenAt = new Date("2024-05-01T12:00:00Z");
+    const account = await new Account({ email: "a@example.com", score: 1.5, active: true, lastSeenAt: seenAt }).save();
+    const loaded = await Account.get(account.get("id"));
+    assert.equal(loaded?.get("score"), 1.5);
+    assert.equal(loaded?.get("lastSeenAt")?.getTime(), seenAt.getTime());
+  });
+
+  it("should report differences from the declared schema", async () => {
+    await pool.query('ALTER TABLE "accounts" DROP COLUMN "last_seen_at"');
+    await pool.query('ALTER TABLE "accounts" ADD COLUMN "notes" TEXT');
+    await pool.query('ALTER TABLE "accounts" ALTER COLUMN "score" TYPE INTEGER');
+
+    // pg-mem reports every column as not null without its default, and no constraints or indexes,
+    // so only the mismatches it reports faithfully are compared
+    const mismatches = (await checkSchema(Account))
+      .filter(({ kind }) => ["missing-table", "missing-column", "extra-column", "type"].indexOf(kind) !== -1);
+    assert.deepEqual(mismatches.map(({ kind, column }) => ({ kind, column })), [
+      { kind: "type", column: "score" },
+      { kind: "missing-column", column: "last_seen_at" },
+      { kind: "extra-column", column: "notes" },
+    ]);
+    assert.equal(mismatches[0]?.message, "accounts.score: expected DOUBLE PRECISION, found INTEGER");
+  });
+
+  it("should record applied migrations", async () => {
+    const store = createPostgresMigrationStore();
+    const context = await adapter.getContext();
+    // pg-mem can't run the CREATE TABLE IF NOT EXISTS of prepare, so the table is created here
+    await pool.query('CREATE TABLE "schema_migrations" ("name" TEXT PRIMARY KEY, "applied_at" TIMESTAMPTZ)');
+    await store.record(context, "20240101000000_create_accounts", new Date("2024-01-01T00:00:00Z"));
+    assert.deepEqual(await store.applied(context), [
+      { name: "20240101000000_create_accounts", appliedAt: new Date("2024-01-01T00:00:00Z") },
+    ]);
+    await store.forget(context, "20240101000000_create_accounts");
+    assert.deepEqual(await store.applied(context), []);
+  });
+});
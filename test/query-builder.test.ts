@@ -0,0 +1,171 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { newDb } from "pg-mem";
+import { AdapterConfig, createMemoryAdapter, Model, Persistence, ValueEncoder } from "../src";
+import { createPostgresAdapter } from "../src/adapters/postgres";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type PersonAttrs = {
+  id?: number;
+  name: string;
+  age: number;
+  nickname: string | null;
+  joinedAt: Date;
+}
+
+const dateEncoder: ValueEncoder<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (value) => new Date(value),
+};
+
+const people: PersonAttrs[] = [
+  { name: "Alice", age: 34, nickname: "Al", joinedAt: new Date("2020-01-01T00:00:00Z") },
+  { name: "Bob", age: 17, nickname: null, joinedAt: new Date("2021-06-01T00:00:00Z") },
+  { name: "Carol", age: 52, nickname: "Caz", joinedAt: new Date("2019-03-15T00:00:00Z") },
+  { name: "Dave", age: 17, nickname: null, joinedAt: new Date("2022-11-30T00:00:00Z") },
+  { name: "Alfred", age: 70, nickname: "Alf", joinedAt: new Date("2018-08-08T00:00:00Z") },
+];
+
+function describeQueryBuilder(name: string, createAdapter: () => Promise<AdapterConfig<PersonAttrs>>, cleanup: () => Promise<void>) {
+  describe(name, () => {
+    let loaded = 0;
+
+    class Person extends Model<PersonAttrs> {}
+
+    before(async () => {
+      Persistence<PersonAttrs>(await createAdapter(), { joinedAt: { encoder: dateEncoder } }, {
+        postLoad: async () => { loaded++; },
+      })(Person);
+      for (const attrs of people) {
+        await new Person(attrs).save();
+      }
+    });
+
+    after(cleanup);
+
+    it("should filter with comparison operators", async () => {
+      const adults = await Person.where({ age: { gte: 18 } }).orderBy("age").all();
+      assert.deepEqual(adults.map((person) => person.get("name")), ["Alice", "Carol", "Alfred"]);
+
+      const middle = await Person.where("age", "gt", 17).where("age", "lt", 60).orderBy("name").all();
+      assert.deepEqual(middle.map((person) => person.get("name")), ["Alice", "Carol"]);
+
+      const notSeventeen = await Person.where({ age: { ne: 17 } }).count();
+      assert.equal(notSeventeen, 3);
+    });
+
+    it("should filter with IN, LIKE and IS NULL", async () => {
+      const named = await Person.where({ name: { in: ["Bob", "Dave", "Zed"] } }).orderBy("name").all();
+      assert.deepEqual(named.map((person) => person.get("name")), ["Bob", "Dave"]);
+
+      assert.equal(await Person.where({ name: { in: [] } }).count(), 0);
+      assert.equal(await Person.where({ name: { notIn: ["Bob"] } }).count(), 4);
+
+      const als = await Person.where({ name: { like: "al%" } }).orderBy("name").all();
+      assert.deepEqual(als.map((person) => person.get("name")), ["Alfred", "Alice"]);
+
+      assert.equal(await Person.where({ nickname: null }).count(), 2);
+      assert.equal(await Person.where({ nickname: { isNull: false } }).count(), 3);
+      assert.equal(await Person.where("nickname", "ne", null).count(), 3);
+    });
+
+    it("should order, limit and offset results", async () => {
+      const query = Person.where().orderBy("age", "desc").orderBy("name");
+      const page = await query.offset(1).limit(3).all();
+      assert.deepEqual(page.map((person) => person.get("name")), ["Carol", "Alice", "Bob"]);
+
+      const rest = await query.offset(3).all();
+      assert.deepEqual(rest.map((person) => person.get("name")), ["Bob", "Dave"]);
+    });
+
+    it("should encode values with the field's encoder", async () => {
+      const recent = await Person.where({ joinedAt: { gt: new Date("2020-06-01T00:00:00Z") } }).orderBy("joinedAt").all();
+      assert.deepEqual(recent.map((person) => person.get("name")), ["Bob", "Dave"]);
+      assert.ok(recent[0]?.get("joinedAt") instanceof Date);
+    });
+
+    it("should return the first result, or null", async () => {
+      const oldest = await Person.where().orderBy("age", "desc").first();
+      assert.ok(oldest instanceof Person);
+      assert.equal(oldest.get("name"), "Alfred");
+      assert.equal(await Person.where({ name: "Nobody" }).first(), null);
+    });
+
+    it("should count and check existence ignoring limits", async () => {
+      assert.equal(await Person.where({ age: 17 }).limit(1).count(), 2);
+      assert.equal(await Person.where({ age: 17 }).exists(), true);
+      assert.equal(await Person.where({ age: { gt: 100 } }).exists(), false);
+    });
+
+    it("should run postLoad for every loaded model", async () => {
+      loaded = 0;
+      await Person.where({ age: 17 }).all();
+      assert.equal(loaded, 2);
+    });
+
+    it("should leave the original builder unchanged when chaining", async () => {
+      const base = Person.where({ age: 17 });
+      base.where({ name: "Bob" }).limit(1);
+      assert.equal(base.toQuery().where.length, 1);
+      assert.equal(base.toQuery().limit, undefined);
+    });
+  });
+}
+
+let db: SqliteDatabase;
+
+describeQueryBuilder(
+  "Query builder (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE people (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, age INTEGER, nickname TEXT, joined_at TEXT)");
+    return createSqliteAdapter<PersonAttrs>({ database: db, tableName: "people", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.close(); }
+);
+
+let pool: any;
+
+describeQueryBuilder(
+  "Query builder (PostgreSQL)",
+  async () => {
+    const { Pool } = newDb().adapters.createPg();
+    pool = new Pool();
+    await pool.query("CREATE TABLE people (id SERIAL PRIMARY KEY, name TEXT, age INTEGER, nickname TEXT, joined_at TEXT)");
+    return createPostgresAdapter<PersonAttrs>({ pool, tableName: "people", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await pool.end(); }
+);
+
+describeQueryBuilder(
+  "Query builder (memory)",
+  async () => createMemoryAdapter<PersonAttrs>({ primaryKey: "autoincrement" }),
+  async () => {}
+);
+
+describeQueryBuilder(
+  "Query builder (adapter without select)",
+  async () => {
+    const { select, count, ...adapter } = createMemoryAdapter<PersonAttrs>({ primaryKey: "autoincrement" });
+    return adapter;
+  },
+  async () => {}
+);
+
+describe("Query builder types", () => {
+  @Persistence(createMemoryAdapter<PersonAttrs>())
+  class Person extends Model<PersonAttrs> {}
+
+  it("should reject unknown fields and mistyped values", () => {
+    // @ts-expect-error unknown field
+    Person.where({ height: 3 });
+    // @ts-expect-error age is a number
+    Person.where({ age: { gt: "18" } });
+    // @ts-expect-error like is only available on string fields
+    Person.where("age", "like", "1%");
+    // @ts-expect-error unknown field
+    Person.where().orderBy("height");
+  });
+});
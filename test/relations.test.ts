@@ -0,0 +1,172 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { BelongsTo, belongsTo, createMemoryAdapter, HasMany, hasMany, HasOne, hasOne, Model, Persistence } from "../src";
+
+type AuthorAttrs = { id?: number; name: string };
+type ProfileAttrs = { id?: number; authorId?: number; bio: string };
+type PostAttrs = { id?: number; authorId?: number | null; title: string };
+type CommentAttrs = { id?: number; articleId?: number; body: string };
+
+const authors = createMemoryAdapter<AuthorAttrs>({ primaryKey: "autoincrement" });
+const profiles = createMemoryAdapter<ProfileAttrs>({ primaryKey: "autoincrement" });
+const posts = createMemoryAdapter<PostAttrs>({ primaryKey: "autoincrement" });
+const comments = createMemoryAdapter<CommentAttrs>({ primaryKey: "autoincrement" });
+
+@Persistence<AuthorAttrs>(authors, {}, {
+  relations: {
+    posts: hasMany(() => Post),
+    profile: hasOne(() => Profile),
+  },
+})
+class Author extends Model<AuthorAttrs> {
+  declare posts: HasMany<Post>;
+  declare profile: HasOne<Profile>;
+}
+
+@Persistence<ProfileAttrs>(profiles, {}, {
+  relations: { author: belongsTo(() => Author) },
+})
+class Profile extends Model<ProfileAttrs> {
+  declare author: BelongsTo<Author>;
+}
+
+@Persistence<PostAttrs>(posts, {}, {
+  relations: {
+    author: belongsTo(() => Author),
+    comments: hasMany(() => Comment, { foreignKey: "articleId" }),
+  },
+})
+class Post extends Model<PostAttrs> {
+  declare author: BelongsTo<Author>;
+  declare comments: HasMany<Comment>;
+}
+
+@Persistence<CommentAttrs>(comments, {}, {
+  relations: { post: belongsTo(() => Post, { foreignKey: "articleId" }) },
+})
+class Comment extends Model<CommentAttrs> {
+  declare post: BelongsTo<Post>;
+}
+
+describe("Relations", () => {
+  beforeEach(() => {
+    for (const adapter of [authors, profiles, posts, comments]) adapter.reset();
+  });
+
+  it("should load belongsTo relations through the related class's adapter", async () => {
+    const author = await new Author({ name: "Ann" }).save();
+    const post = await new Post({ title: "Hello", authorId: author.get("id") }).save();
+
+    const loaded = await Post.get(post.get("id"));
+    assert.equal(loaded?.author.loaded, false);
+    assert.equal(loaded?.author.get(), undefined);
+
+    const related = await loaded!.author.load();
+    assert.ok(related instanceof Author);
+    assert.equal(related.get("name"), "Ann");
+    assert.equal(loaded!.author.get(), related);
+  });
+
+  it("should load null for a missing foreign key", async () => {
+    const post = await new Post({ title: "Orphan", authorId: null }).save();
+    assert.equal(await post.author.load(), null);
+    assert.equal(post.author.loaded, true);
+  });
+
+  it("should load hasMany relations with a custom foreign key", async () => {
+    const post = await new Post({ title: "Popular" }).save();
+    await new Comment({ articleId: post.get("id"), body: "First" }).save();
+    await new Comment({ articleId: post.get("id"), body: "Second" }).save();
+    await new Comment({ articleId: 999, body: "Elsewhere" }).save();
+
+    const loaded = await post.comments.load();
+    assert.deepEqual(loaded.map((comment) => comment.get("body")), ["First", "Second"]);
+    assert.ok(loaded.every((comment) => comment instanceof Comment));
+  });
+
+  it("should load hasOne relations", async () => {
+    const author = await new Author({ name: "Bea" }).save();
+    assert.equal(await author.profile.load(), null);
+
+    await new Profile({ authorId: author.get("id"), bio: "Writer" }).save();
+    assert.equal((await author.profile.load())?.get("bio"), "Writer");
+  });
+
+  it("should save an assigned belongsTo model first and set the foreign key", async () => {
+    const author = new Author({ name: "Cal" });
+    const post = new Post({ title: "Draft" });
+    post.author.set(author);
+
+    await post.save();
+    assert.equal(author.persisted, true);
+    assert.equal(post.get("authorId"), author.get("id"));
+    assert.equal((await Post.get(post.get("id")))?.get("authorId"), author.get("id"));
+  });
+
+  it("should set the foreign key immediately when assigning a persisted model", async () => {
+    const author = await new Author({ name: "Dee" }).save();
+    const post = await new Post({ title: "Post", authorId: null }).save();
+
+    post.author.set(author);
+    assert.equal(post.get("authorId"), author.get("id"));
+    assert.deepEqual(post.getChangedFields(), ["authorId"]);
+
+    post.author.set(null);
+    assert.equal(post.get("authorId"), null);
+  });
+
+  it("should build belongsTo models", async () => {
+    const profile = new Profile({ bio: "New" });
+    const author = profile.author.build({ name: "Eve" });
+    await profile.save();
+
+    assert.ok(author instanceof Author);
+    assert.equal(profile.get("authorId"), author.get("id"));
+  });
+
+  it("should save built hasMany models after the owner with the foreign key set", async () => {
+    const post = new Post({ title: "With comments" });
+    const first = post.comments.build({ body: "One" });
+    post.comments.add(new Comment({ body: "Two" }));
+
+    await post.save();
+    assert.equal(first.persisted, true);
+    assert.equal(first.get("articleId"), post.get("id"));
+
+    const loaded = await Post.get(post.get("id"));
+    assert.deepEqual((await loaded!.comments.load()).map((comment) => comment.get("body")), ["One", "Two"]);
+  });
+
+  it("should save nothing if a related model fails to save", async () => {
+    await new Comment({ id: 1, body: "Taken" }).save();
+    const post = new Post({ title: "Half saved" });
+    const first = post.comments.build({ body: "One" });
+    post.comments.add(new Comment({ id: 1, body: "Duplicate" }));
+
+    await assert.rejects(() => post.save(), /Duplicate primary key: 1/);
+    assert.equal(post.persisted, false);
+    assert.equal(first.persisted, false);
+    assert.deepEqual(await Post.all(), []);
+    assert.deepEqual((await Comment.all()).map((comment) => comment.get("body")), ["Taken"]);
+  });
+
+  it("should save built related models even when the owner is unchanged", async () => {
+    const author = await new Author({ name: "Fay" }).save();
+    const post = author.posts.build({ title: "Later" });
+    assert.equal(post.get("authorId"), author.get("id"));
+
+    await author.save();
+    assert.equal(post.persisted, true);
+    assert.equal((await author.posts.load()).length, 1);
+  });
+
+  it("should save a built hasOne model after the owner", async () => {
+    const author = new Author({ name: "Gus" });
+    const profile = author.profile.build({ bio: "Hi" });
+    await author.save();
+
+    assert.equal(profile.persisted, true);
+    assert.equal(profile.get("authorId"), author.get("id"));
+    assert.equal((await Profile.getBy({ authorId: author.get("id") }))?.get("bio"), "Hi");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { Model, ModelNotFoundError, Persistence, ValueEncoder } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type TaskAttrs = {
+  id?: number;
+  title: string;
+  status?: string;
+  labels: string[];
+  deletedAt?: string | null;
+}
+
+const labelsEncoder: ValueEncoder<string[], string> = {
+  encode: (value) => value.join(","),
+  decode: (value) => value ? value.split(",") : [],
+};
+
+describe("Reload", () => {
+  let db: SqliteDatabase;
+  let loads = 0;
+
+  const adapter = createSqliteAdapter<TaskAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "tasks",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence<TaskAttrs>(adapter, { labels: { encoder: labelsEncoder } }, {
+    softDelete: true,
+    postLoad: async () => { loads++; },
+  })
+  class Task extends Model<TaskAttrs> {}
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE tasks (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, status TEXT DEFAULT 'open', labels TEXT, deleted_at TEXT)");
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    loads = 0;
+    await db.run("DELETE FROM tasks");
+  });
+
+  it("should pick up database defaults and concurrent updates", async () => {
+    const task = await new Task({ title: "Write docs", labels: ["docs"], deletedAt: null }).save();
+    assert.equal(task.get("status"), undefined);
+
+    await db.run("UPDATE tasks SET labels = 'docs,urgent' WHERE id = ?", task.get("id"));
+    assert.equal(await task.reload(), task);
+    assert.equal(task.get("status"), "open");
+    assert.deepEqual(task.get("labels"), ["docs", "urgent"]);
+    assert.equal(loads, 1);
+  });
+
+  it("should discard unsaved changes", async () => {
+    const task = await new Task({ title: "Write docs", labels: [], deletedAt: null }).save();
+    task.set("title", "Write more docs");
+    await task.reload();
+    assert.equal(task.get("title"), "Write docs");
+    assert.deepEqual(task.getChanges(), {});
+  });
+
+  it("should reload soft-deleted models", async () => {
+    const task = await new Task({ title: "Old", labels: [], deletedAt: null }).save();
+    await db.run("UPDATE tasks SET deleted_at = '2024-01-01' WHERE id = ?", task.get("id"));
+    await task.reload();
+    assert.equal(task.deleted, true);
+  });
+
+  it("should throw if the row is gone", async () => {
+    const task = await new Task({ title: "Gone", labels: [], deletedAt: null }).save();
+    await db.run("DELETE FROM tasks");
+    await assert.rejects(() => task.reload(), (err: unknown) => {
+      assert.ok(err instanceof ModelNotFoundError);
+      assert.equal(err.model, task);
+      assert.equal(err.message, `Task ${task.get("id")} not found`);
+      return true;
+    });
+    await assert.rejects(() => new Task({ title: "New", labels: [] }).reload(), /Cannot reload unpersisted model/);
+  });
+});
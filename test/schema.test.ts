@@ -0,0 +1,137 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { checkSchema, createMemoryAdapter, generateSchemaSql, getTableSchema, Model, Persistence } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type AccountAttrs = {
+  id?: number;
+  email: string;
+  displayName: string;
+  score: number;
+  active: boolean;
+  status: string;
+  passwordConfirmation?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+describe("Schema", () => {
+  let db: SqliteDatabase;
+
+  const adapter = createSqliteAdapter<AccountAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "accounts",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence<AccountAttrs>(adapter, {
+    email: { required: true, column: { unique: true } },
+    displayName: { column: { name: "name", index: true } },
+    score: { type: "integer", column: { default: 0 } },
+    active: { type: "boolean", column: { nullable: false, default: true } },
+    status: { column: { default: "new'", index: "accounts_by_status" } },
+    passwordConfirmation: { persist: false },
+  }, {
+    timestamps: true,
+    optimisticLocking: true,
+  })
+  class Account extends Model<AccountAttrs> {}
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it("should resolve columns from field specs and model options", () => {
+    const columns = getTableSchema(Account).columns;
+    assert.deepEqual(columns.map((column) => column.field), [
+      "id", "email", "displayName", "score", "active", "status", "createdAt", "updatedAt", "version",
+    ]);
+    assert.deepEqual(columns[1], {
+      field: "email", name: undefined, type: undefined, nullable: false, default: undefined, unique: true, index: undefined, primaryKey: false,
+    });
+    assert.equal(columns[3]?.type, "integer");
+    assert.deepEqual(columns[8], {
+      field: "version", name: undefined, type: "integer", nullable: false, default: 0, unique: false, index: undefined, primaryKey: false,
+    });
+  });
+
+  it("should generate the table and index statements", () => {
+    assert.deepEqual(generateSchemaSql(Account), [
+      `CREATE TABLE "accounts" (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "email" TEXT NOT NULL UNIQUE,
+  "name" TEXT,
+  "score" INTEGER DEFAULT 0,
+  "active" BOOLEAN NOT NULL DEFAULT TRUE,
+  "status" TEXT DEFAULT 'new''',
+  "created_at" DATETIME,
+  "updated_at" DATETIME,
+  "version" INTEGER NOT NULL DEFAULT 0
+)`,
+      `CREATE INDEX "accounts_name_index" ON "accounts" ("name")`,
+      `CREATE INDEX "accounts_by_status" ON "accounts" ("status")`,
+    ]);
+  });
+
+  it("should report a missing table", async () => {
+    const mismatches = await checkSchema(Account);
+    assert.deepEqual(mismatches.map((mismatch) => mismatch.kind), ["missing-table"]);
+  });
+
+  it("should find no mismatches in a generated table", async () => {
+    for (const sql of generateSchemaSql(Account)) {
+      await db.run(sql);
+    }
+    assert.deepEqual(await checkSchema(Account), []);
+  });
+
+  it("should store fields in their named columns", async () => {
+    const account = await new Account({ email: "a@example.com", displayName: "Ada", score: 1, active: true, status: "new" }).save();
+    assert.deepEqual(await db.get("SELECT name FROM accounts WHERE id = ?", account.get("id")), { name: "Ada" });
+    assert.equal((await Account.get(account.get("id")))?.get("displayName"), "Ada");
+    assert.equal((await Account.getBy({ displayName: "Ada" }))?.get("email"), "a@example.com");
+  });
+
+  it("should report differences from the declared schema", async () => {
+    await db.run("DROP TABLE accounts");
+    await db.run(`CREATE TABLE accounts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT NOT NULL,
+      score REAL DEFAULT 0,
+      active BOOLEAN DEFAULT TRUE,
+      status TEXT DEFAULT 'new''',
+      created_at DATETIME,
+      updated_at DATETIME,
+      version INTEGER NOT NULL DEFAULT 1,
+      notes TEXT
+    )`);
+    await db.run(`CREATE INDEX accounts_by_status ON accounts (status)`);
+
+    const mismatches = await checkSchema(Account);
+    assert.deepEqual(mismatches.map(({ kind, column }) => ({ kind, column })), [
+      { kind: "unique", column: "email" },
+      { kind: "missing-column", column: "name" },
+      { kind: "type", column: "score" },
+      { kind: "nullable", column: "active" },
+      { kind: "default", column: "version" },
+      { kind: "extra-column", column: "notes" },
+    ]);
+    assert.equal(mismatches[2]?.message, "accounts.score: expected INTEGER, found REAL");
+  });
+
+  it("should require adapter support", async () => {
+    @Persistence(createMemoryAdapter())
+    class Note extends Model<{ id?: string }> {}
+
+    assert.throws(() => generateSchemaSql(Note), /does not support schema generation/);
+    await assert.rejects(() => checkSchema(Note), /does not support schema checks/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BelongsTo, belongsTo, createMemoryAdapter, HasMany, hasMany, Model, Persistence } from "../src";
+
+type UserAttrs = {
+  id?: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  secretKey: string;
+  createdAt: Date;
+}
+
+type PostAttrs = {
+  id?: number;
+  userId?: number;
+  title: string;
+}
+
+@Persistence<UserAttrs>(createMemoryAdapter<UserAttrs>({ primaryKey: "autoincrement" }), {
+  secretKey: { hidden: true },
+}, {
+  relations: { posts: hasMany(() => Post) },
+})
+class User extends Model<UserAttrs> {
+  declare hiddenFields: "secretKey";
+  declare posts: HasMany<Post>;
+}
+
+@Persistence<PostAttrs>(createMemoryAdapter<PostAttrs>({ primaryKey: "autoincrement" }), {}, {
+  relations: { user: belongsTo(() => User) },
+})
+class Post extends Model<PostAttrs> {
+  declare user: BelongsTo<User>;
+
+  override toJSON() {
+    return this.toObject({ pick: ["title"] });
+  }
+}
+
+const createdAt = new Date("2024-01-01T00:00:00Z");
+
+function createUser() {
+  return new User({ firstName: "Ada", lastName: "Lovelace", email: "ada@example.com", secretKey: "s3cret", createdAt });
+}
+
+describe("Serialization", () => {
+  it("should serialize fields without hidden fields or internal state", () => {
+    const user = createUser();
+    user.set("email", "countess@example.com");
+    assert.deepEqual(user.toObject(), { firstName: "Ada", lastName: "Lovelace", email: "countess@example.com", createdAt });
+    assert.deepEqual(JSON.parse(JSON.stringify(user)), {
+      firstName: "Ada",
+      lastName: "Lovelace",
+      email: "countess@example.com",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const email: string = user.toObject().email;
+    assert.equal(email, "countess@example.com");
+    // @ts-expect-error secretKey is hidden
+    user.toObject().secretKey;
+    // @ts-expect-error secretKey is hidden
+    user.toJSON().secretKey;
+  });
+
+  it("should pick and omit fields", () => {
+    const user = createUser();
+    const picked = user.toObject({ pick: ["firstName", "secretKey"] });
+    assert.deepEqual(picked, { firstName: "Ada", secretKey: "s3cret" });
+    const omitted = user.toObject({ omit: ["email", "createdAt"] });
+    assert.deepEqual(omitted, { firstName: "Ada", lastName: "Lovelace" });
+
+    const firstName: string = picked.firstName;
+    assert.equal(firstName, "Ada");
+    // @ts-expect-error lastName was not picked
+    picked.lastName;
+    // @ts-expect-error email was omitted
+    omitted.email;
+    // @ts-expect-error unknown field
+    user.toObject({ pick: ["password"] });
+  });
+
+  it("should add virtual attributes", () => {
+    const user = createUser();
+    const serialized = user.toObject({
+      pick: ["id"],
+      virtuals: { fullName: (model) => `${model.get("firstName")} ${model.get("lastName")}`, posts: () => 3 },
+    });
+    assert.deepEqual(serialized, { id: undefined, fullName: "Ada Lovelace", posts: 3 });
+    const fullName: string = serialized.fullName;
+    assert.equal(fullName, "Ada Lovelace");
+  });
+
+  it("should include loaded relations", async () => {
+    const user = await createUser().save();
+    assert.deepEqual(user.toObject({ pick: ["firstName"], include: ["posts"] }), { firstName: "Ada" });
+
+    await new Post({ userId: user.get("id"), title: "Notes" }).save();
+    await new Post({ userId: user.get("id"), title: "Engines" }).save();
+    await user.posts.load();
+    const serialized = user.toObject({ pick: ["firstName"], include: ["posts"] });
+    assert.deepEqual(serialized, { firstName: "Ada", posts: [{ title: "Notes" }, { title: "Engines" }] });
+    const titles: string[] | undefined = serialized.posts?.map((post) => post.title);
+    assert.deepEqual(titles, ["Notes", "Engines"]);
+
+    const post = (await Post.where({ title: "Notes" }).include("user").first())!;
+    const withUser = post.toObject({ include: ["user"] });
+    assert.equal(withUser.user?.firstName, "Ada");
+    assert.equal((withUser.user as Record<string, unknown>).secretKey, undefined);
+    // @ts-expect-error unknown relation
+    assert.throws(() => post.toObject({ include: ["comments"] }), /Unknown relation: comments/);
+  });
+});
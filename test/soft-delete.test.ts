@@ -0,0 +1,152 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { AdapterConfig, createMemoryAdapter, DeleteType, Model, Persistence, ValueEncoder } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type DocumentAttrs = {
+  id?: number;
+  title: string;
+  deletedAt?: Date | null;
+}
+
+const dateEncoder: ValueEncoder<Date | null | undefined, string | null> = {
+  encode: (value) => value ? value.toISOString() : null,
+  decode: (value) => value === null ? null : new Date(value),
+};
+
+function describeSoftDelete(
+  name: string,
+  createAdapter: () => Promise<AdapterConfig<DocumentAttrs>>,
+  reset: () => Promise<void>,
+  cleanup: () => Promise<void>
+) {
+  describe(name, () => {
+    let deletes: DeleteType[] = [];
+
+    class Document extends Model<DocumentAttrs> {}
+
+    before(async () => {
+      Persistence<DocumentAttrs>(await createAdapter(), { deletedAt: { encoder: dateEncoder } }, {
+        softDelete: true,
+        postDelete: async (_context, _model, type) => { deletes.push(type); },
+      })(Document);
+    });
+
+    beforeEach(async () => {
+      deletes = [];
+      await reset();
+    });
+
+    after(cleanup);
+
+    it("should set the deletion time instead of removing the row", async () => {
+      const doc = await new Document({ title: "Contract", deletedAt: null }).save();
+      assert.equal(doc.deleted, false);
+
+      assert.equal(await doc.del(), true);
+      assert.equal(doc.deleted, true);
+      assert.ok(doc.get("deletedAt") instanceof Date);
+      assert.deepEqual(doc.getChangedFields(), []);
+      assert.deepEqual(deletes, ["soft"]);
+
+      const stored = await Document.withDeleted().where({ id: doc.get("id") }).first();
+      assert.equal(stored?.get("deletedAt")?.getTime(), doc.get("deletedAt")?.getTime());
+      assert.equal(await doc.del(), false);
+    });
+
+    it("should exclude soft-deleted models from all, get and getBy", async () => {
+      const kept = await new Document({ title: "Kept", deletedAt: null }).save();
+      const removed = await new Document({ title: "Removed", deletedAt: null }).save();
+      await removed.del();
+
+      assert.deepEqual((await Document.all()).map((doc) => doc.get("title")), ["Kept"]);
+      assert.deepEqual(await Document.all({ title: "Removed" }), []);
+      assert.equal(await Document.get(removed.get("id")), null);
+      assert.equal((await Document.get(kept.get("id")))?.get("title"), "Kept");
+      assert.equal(await Document.getBy({ title: "Removed" }), null);
+    });
+
+    it("should scope query builders to deleted rows", async () => {
+      await new Document({ title: "One", deletedAt: null }).save();
+      await (await new Document({ title: "Two", deletedAt: null }).save()).del();
+
+      assert.equal(await Document.where().count(), 1);
+      assert.equal(await Document.withDeleted().count(), 2);
+      assert.deepEqual((await Document.onlyDeleted().all()).map((doc) => doc.get("title")), ["Two"]);
+      assert.equal(await Document.where({ title: "Two" }).exists(), false);
+      assert.equal(await Document.where({ title: "Two" }).withDeleted().exists(), true);
+    });
+
+    it("should restore soft-deleted models", async () => {
+      const doc = await new Document({ title: "Draft", deletedAt: null }).save();
+      await doc.del();
+
+      assert.equal(await doc.restore(), true);
+      assert.equal(doc.deleted, false);
+      assert.equal(doc.get("deletedAt"), null);
+      assert.equal((await Document.get(doc.get("id")))?.get("title"), "Draft");
+      assert.equal(await doc.restore(), false);
+    });
+
+    it("should remove the row with forceDelete", async () => {
+      const doc = await new Document({ title: "Spam", deletedAt: null }).save();
+      await doc.del();
+
+      assert.equal(await doc.forceDelete(), true);
+      assert.equal(await Document.withDeleted().count(), 0);
+      assert.deepEqual(deletes, ["soft", "hard"]);
+    });
+  });
+}
+
+const memory = createMemoryAdapter<DocumentAttrs>({ primaryKey: "autoincrement" });
+describeSoftDelete(
+  "Soft delete (memory)",
+  async () => memory,
+  async () => memory.reset(),
+  async () => {}
+);
+
+let db: SqliteDatabase;
+describeSoftDelete(
+  "Soft delete (SQLite)",
+  async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE documents (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, deleted_at TEXT)");
+    return createSqliteAdapter<DocumentAttrs>({ database: db, tableName: "documents", columnNaming: "snake", primaryKey: "autoincrement" });
+  },
+  async () => { await db.run("DELETE FROM documents"); },
+  async () => { await db.close(); }
+);
+
+describe("Soft delete options", () => {
+  type NoteAttrs = { id?: number; body: string; removedAt?: Date | null };
+
+  const notes = createMemoryAdapter<NoteAttrs>({ primaryKey: "autoincrement" });
+  @Persistence<NoteAttrs>(notes, {}, { softDelete: { field: "removedAt" } })
+  class Note extends Model<NoteAttrs> {}
+
+  const plain = createMemoryAdapter<NoteAttrs>({ primaryKey: "autoincrement" });
+  let plainDeletes: DeleteType[] = [];
+  @Persistence<NoteAttrs>(plain, {}, { postDelete: async (_context, _model, type) => { plainDeletes.push(type); } })
+  class PlainNote extends Model<NoteAttrs> {}
+
+  it("should use a configured field", async () => {
+    const note = await new Note({ body: "Hi", removedAt: null }).save();
+    await note.del();
+    assert.ok(notes.snapshot().rows[0]?.removedAt instanceof Date);
+    assert.equal(await Note.get(note.get("id")), null);
+    assert.equal((await Note.all({ removedAt: note.get("removedAt") })).length, 1);
+  });
+
+  it("should delete rows of models without soft delete", async () => {
+    const note = await new PlainNote({ body: "Bye" }).save();
+    assert.equal(await note.del(), true);
+    assert.equal(note.deleted, false);
+    assert.deepEqual(plain.snapshot().rows, []);
+    assert.deepEqual(plainDeletes, ["hard"]);
+    await assert.rejects(() => note.restore(), /without soft delete/);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { Model, Persistence } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+import { unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+
+type NoteAttrs = {
+  id?: number;
+  title: string;
+  bodyText: string | null;
+}
+
+describe("SQLite adapter", () => {
+  let db: SqliteDatabase;
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run('CREATE TABLE "order notes" (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, body_text TEXT)');
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  const adapter = createSqliteAdapter<NoteAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "order notes",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence(adapter)
+  class Note extends Model<NoteAttrs> {}
+
+  it("should use the given connection as its context", async () => {
+    const context = await adapter.getContext();
+    assert.equal(context.db, db);
+    assert.equal(await adapter.getContext(), context);
+  });
+
+  it("should populate autoincrement primary keys from lastID", async () => {
+    const first = await new Note({ title: "First", bodyText: "one" }).save();
+    const second = await new Note({ title: "Second", bodyText: null }).save();
+
+    assert.equal(typeof first.get("id"), "number");
+    assert.equal(second.get("id"), first.get("id")! + 1);
+  });
+
+  it("should map snake_case columns to camelCase fields", async () => {
+    const note = await new Note({ title: "Mapped", bodyText: "text" }).save();
+    const row = await db.get('SELECT * FROM "order notes" WHERE id = ?', [note.get("id")]);
+    assert.equal(row.body_text, "text");
+
+    const loaded = await Note.get(note.get("id"));
+    assert.equal(loaded?.get("bodyText"), "text");
+  });
+
+  it("should match null values with IS NULL", async () => {
+    const notes = await Note.all({ bodyText: null });
+    assert.ok(notes.length >= 1);
+    assert.ok(notes.every((note) => note.get("bodyText") === null));
+  });
+
+  it("should accept a raw WHERE clause or a full SELECT statement", async () => {
+    const byClause = await Note.all("WHERE title = ?", ["First"]);
+    assert.equal(byClause.length, 1);
+
+    const byStatement = await Note.all('SELECT * FROM "order notes" WHERE title = ?', ["Second"]);
+    assert.equal(byStatement.length, 1);
+    assert.equal(byStatement[0]?.get("title"), "Second");
+  });
+
+  it("should throw from getBy when multiple rows match", async () => {
+    await new Note({ title: "Duplicate", bodyText: "a" }).save();
+    await new Note({ title: "Duplicate", bodyText: "b" }).save();
+    await assert.rejects(() => Note.getBy({ title: "Duplicate" }), /multiple results/);
+    assert.equal(await Note.getBy({ title: "Missing" }), null);
+  });
+
+  it("should report unsuccessful updates and deletes of missing rows", async () => {
+    const context = await adapter.getContext();
+    const ghost = new Note({ id: 9999, title: "Ghost", bodyText: null }, true);
+
+    const result = await adapter.update(context, ghost, { title: "Still a ghost" });
+    assert.deepEqual(result, { success: false, inserted: false, rows: 0, primaryKey: 9999 });
+    assert.equal(await adapter.del(context, ghost), false);
+  });
+
+  it("should not interpolate values into identifiers", async () => {
+    const note = await new Note({ title: `"; DROP TABLE "order notes"; --`, bodyText: null }).save();
+    const loaded = await Note.get(note.get("id"));
+    assert.equal(loaded?.get("title"), `"; DROP TABLE "order notes"; --`);
+  });
+});
+
+describe("SQLite adapter with a database file", () => {
+  const dbPath = "/tmp/test_sqlite_adapter.db";
+
+  type TagAttrs = {
+    key?: string;
+    label: string;
+  }
+
+  const adapter = createSqliteAdapter<TagAttrs>({
+    filename: dbPath,
+    tableName: "tags",
+    primaryKeyField: "key",
+    primaryKey: (data) => `tag-${String(data.label).toLowerCase()}`,
+  });
+
+  @Persistence(adapter)
+  class Tag extends Model<TagAttrs> {}
+
+  before(async () => {
+    const context = await adapter.getContext();
+    await context.db.run("CREATE TABLE IF NOT EXISTS tags (key TEXT PRIMARY KEY, label TEXT)");
+  });
+
+  after(async () => {
+    if (existsSync(dbPath)) {
+      await unlink(dbPath);
+    }
+  });
+
+  it("should use a custom primary key generator", async () => {
+    const tag = await new Tag({ label: "Urgent" }).save();
+    assert.equal(tag.get("key"), "tag-urgent");
+    assert.equal((await Tag.get("tag-urgent"))?.get("label"), "Urgent");
+  });
+
+  it("should keep a primary key supplied by the model", async () => {
+    const tag = await new Tag({ key: "custom", label: "Custom" }).save();
+    assert.equal(tag.get("key"), "custom");
+    assert.ok(existsSync(dbPath));
+  });
+
+  it("should update and delete rows", async () => {
+    const tag = await new Tag({ label: "Later" }).save();
+    tag.set("label", "Soon");
+    await tag.save();
+    assert.equal((await Tag.get(tag.get("key")))?.get("label"), "Soon");
+
+    assert.equal(await tag.del(), true);
+    assert.equal(await Tag.get(tag.get("key")), null);
+  });
+});
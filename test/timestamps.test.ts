@@ -0,0 +1,117 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { createMemoryAdapter, Model, Persistence, ValueEncoder } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+type ArticleAttrs = {
+  id?: number;
+  title: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const dateEncoder: ValueEncoder<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (value) => new Date(value),
+};
+
+let now = new Date("2024-01-01T00:00:00Z");
+const clock = () => now;
+
+describe("Timestamps", () => {
+  let db: SqliteDatabase;
+  let preSaveTimes: (Date | undefined)[] = [];
+
+  const adapter = createSqliteAdapter<ArticleAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "articles",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence<ArticleAttrs>(adapter, {
+    createdAt: { encoder: dateEncoder },
+    updatedAt: { encoder: dateEncoder },
+  }, {
+    timestamps: { clock },
+    preSave: async (_context, model) => { preSaveTimes.push(model.get("updatedAt")); },
+  })
+  class Article extends Model<ArticleAttrs> {}
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE articles (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, created_at TEXT, updated_at TEXT)");
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    now = new Date("2024-01-01T00:00:00Z");
+    preSaveTimes = [];
+    await db.run("DELETE FROM articles");
+  });
+
+  it("should set both fields on insert and store them through the encoder", async () => {
+    const article = await new Article({ title: "Hello" }).save();
+    assert.equal(article.get("createdAt")?.toISOString(), "2024-01-01T00:00:00.000Z");
+    assert.equal(article.get("updatedAt")?.toISOString(), "2024-01-01T00:00:00.000Z");
+    assert.deepEqual(preSaveTimes, [now]);
+
+    const row = await db.get("SELECT created_at, updated_at FROM articles WHERE id = ?", article.get("id"));
+    assert.deepEqual(row, { created_at: "2024-01-01T00:00:00.000Z", updated_at: "2024-01-01T00:00:00.000Z" });
+  });
+
+  it("should only set the updated field on update", async () => {
+    const article = await new Article({ title: "Hello" }).save();
+    now = new Date("2024-02-01T00:00:00Z");
+    article.set("title", "Hello again");
+    await article.save();
+
+    const loaded = await Article.get(article.get("id"));
+    assert.equal(loaded?.get("createdAt")?.toISOString(), "2024-01-01T00:00:00.000Z");
+    assert.equal(loaded?.get("updatedAt")?.toISOString(), "2024-02-01T00:00:00.000Z");
+  });
+
+  it("should not touch unchanged models", async () => {
+    const article = await new Article({ title: "Hello" }).save();
+    now = new Date("2024-03-01T00:00:00Z");
+    await article.save();
+    assert.equal(article.get("updatedAt")?.toISOString(), "2024-01-01T00:00:00.000Z");
+    assert.equal(preSaveTimes.length, 1);
+  });
+
+  it("should keep a created time given on insert", async () => {
+    const createdAt = new Date("2020-05-05T00:00:00Z");
+    const article = await new Article({ title: "Imported", createdAt }).save();
+    assert.equal(article.get("createdAt"), createdAt);
+    assert.equal(article.get("updatedAt")?.toISOString(), "2024-01-01T00:00:00.000Z");
+  });
+});
+
+describe("Timestamp options", () => {
+  type EventAttrs = { id?: number; name: string; occurredAt?: Date; deletedAt?: Date | null };
+
+  const adapter = createMemoryAdapter<EventAttrs>({ primaryKey: "autoincrement" });
+
+  @Persistence<EventAttrs>(adapter, {}, {
+    timestamps: { createdAt: "occurredAt", updatedAt: false, clock },
+    softDelete: true,
+  })
+  class Event extends Model<EventAttrs> {}
+
+  it("should use configured fields and leave out disabled ones", async () => {
+    const event = await new Event({ name: "Launch", deletedAt: null }).save();
+    assert.equal(event.get("occurredAt"), now);
+    assert.deepEqual(Object.keys(adapter.snapshot().rows[0]!).sort(), ["deletedAt", "id", "name", "occurredAt"]);
+  });
+
+  it("should use the clock for soft deletes", async () => {
+    const event = await new Event({ name: "Cancelled", deletedAt: null }).save();
+    await event.del();
+    assert.equal(event.get("deletedAt"), now);
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { createMemoryAdapter, Model, Persistence, transaction, withIdentityMap } from "../src";
+import { createSqliteAdapter, SqliteDatabase } from "../src/adapters/sqlite";
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type AccountAttrs = {
+  id?: number;
+  owner: string;
+  balance: number;
+}
+
+type TransferAttrs = {
+  id?: number;
+  fromId: number;
+  toId: number;
+  amount: number;
+}
+
+describe("Transactions (SQLite)", () => {
+  let db: SqliteDatabase;
+  let saveContexts: any[] = [];
+
+  const accounts = createSqliteAdapter<AccountAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "accounts",
+    primaryKey: "autoincrement",
+  });
+  const transfers = createSqliteAdapter<TransferAttrs>({
+    database: () => Promise.resolve(db),
+    tableName: "transfers",
+    columnNaming: "snake",
+    primaryKey: "autoincrement",
+  });
+
+  @Persistence(accounts, {}, {
+    preSave: async (context) => { saveContexts.push(context); },
+    postSave: async (context) => { saveContexts.push(context); },
+  })
+  class Account extends Model<AccountAttrs> {}
+
+  @Persistence(transfers)
+  class Transfer extends Model<TransferAttrs> {}
+
+  async function transfer(from: Account, to: Account, amount: number) {
+    from.set("balance", from.get("balance") - amount);
+    to.set("balance", to.get("balance") + amount);
+    await from.save();
+    await to.save();
+    await new Transfer({ fromId: from.get("id")!, toId: to.get("id")!, amount }).save();
+  }
+
+  before(async () => {
+    db = await open({ filename: ":memory:", driver: sqlite3.Database });
+    await db.run("CREATE TABLE accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, owner TEXT, balance INTEGER)");
+    await db.run("CREATE TABLE transfers (id INTEGER PRIMARY KEY AUTOINCREMENT, from_id INTEGER, to_id INTEGER, amount INTEGER)");
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    saveContexts = [];
+    await db.run("DELETE FROM accounts");
+    await db.run("DELETE FROM transfers");
+  });
+
+  it("should commit every operation in the callback", async () => {
+    const alice = await new Account({ owner: "alice", balance: 100 }).save();
+    const bob = await new Account({ owner: "bob", balance: 0 }).save();
+
+    const result = await transaction(async () => {
+      await transfer(alice, bob, 30);
+      return "done";
+    });
+
+    assert.equal(result, "done");
+    assert.equal((await Account.get(alice.get("id")))?.get("balance"), 70);
+    assert.equal((await Account.get(bob.get("id")))?.get("balance"), 30);
+    assert.equal((await Transfer.all()).length, 1);
+  });
+
+  it("should roll back every model's changes when the callback throws", async () => {
+    const alice = await new Account({ owner: "alice", balance: 100 }).save();
+    const bob = await new Account({ owner: "bob", balance: 0 }).save();
+
+    await assert.rejects(
+      () => transaction(async () => {
+        await transfer(alice, bob, 30);
+        assert.equal((await Transfer.all()).length, 1);
+        throw new Error("insufficient funds");
+      }),
+      /insufficient funds/
+    );
+
+    assert.equal((await Account.get(alice.get("id")))?.get("balance"), 100);
+    assert.equal((await Account.get(bob.get("id")))?.get("balance"), 0);
+    assert.equal((await Transfer.all()).length, 0);
+  });
+
+  it("should pass the transactional context to hooks", async () => {
+    await transaction(async (tx) => {
+      await new Account({ owner: "carol", balance: 5 }).save();
+      const context = await tx.getContext(accounts);
+      assert.equal(saveContexts.length, 2);
+      assert.ok(saveContexts.every((saveContext) => saveContext === context));
+    });
+  });
+
+  it("should use savepoints for nested transactions", async () => {
+    await transaction(async () => {
+      await new Account({ owner: "outer", balance: 1 }).save();
+
+      await assert.rejects(() => transaction(async () => {
+        await new Account({ owner: "inner", balance: 2 }).save();
+        throw new Error("inner failure");
+      }));
+
+      await transaction(async () => {
+        await new Account({ owner: "nested", balance: 3 }).save();
+      });
+    });
+
+    const owners = (await Account.where().orderBy("owner").all()).map((account) => account.get("owner"));
+    assert.deepEqual(owners, ["nested", "outer"]);
+  });
+
+  it("should run afterCommit callbacks only after a successful commit", async () => {
+    const calls: string[] = [];
+
+    await transaction(async (tx) => {
+      tx.afterCommit(() => { calls.push("outer"); });
+      await transaction(async (inner) => {
+        inner.afterCommit(() => { calls.push("inner"); });
+        await new Account({ owner: "dave", balance: 1 }).save();
+      });
+      assert.deepEqual(calls, []);
+    });
+    assert.deepEqual(calls, ["outer", "inner"]);
+
+    await assert.rejects(() => transaction(async (tx) => {
+      tx.afterCommit(() => { calls.push("rolled back"); });
+      throw new Error("fail");
+    }));
+    assert.deepEqual(calls, ["outer", "inner"]);
+  });
+  it("should run concurrent transactions one after another", async () => {
+    const events: string[] = [];
+    const run = (owner: string) => transaction(async () => {
+      await new Account({ owner, balance: 1 }).save();
+      events.push(`${owner} saved`);
+      await delay(10);
+      events.push(`${owner} finished`);
+    });
+
+    await Promise.all([run("first"), run("second")]);
+    assert.deepEqual(events, ["first saved", "first finished", "second saved", "second finished"]);
+    assert.equal((await Account.all()).length, 2);
+  });
+
+  it("should keep writes from outside a transaction out of its rollback", async () => {
+    let opened!: () => void;
+    const open = new Promise<void>((resolve) => { opened = resolve; });
+    const failing = transaction(async () => {
+      await new Account({ owner: "inside", balance: 1 }).save();
+      opened();
+      await delay(10);
+      throw new Error("fail");
+    });
+    const outside = open.then(() => new Account({ owner: "outside", balance: 2 }).save());
+
+    await assert.rejects(failing, /fail/);
+    await outside;
+    assert.deepEqual((await Account.all()).map((account) => account.get("owner")), ["outside"]);
+  });
+});
+
+describe("Transactions (memory)", () => {
+  const adapter = createMemoryAdapter<AccountAttrs>({ primaryKey: "autoincrement" });
+  const transfers = createMemoryAdapter<TransferAttrs>({ primaryKey: "autoincrement" });
+
+  @Persistence(adapter)
+  class Account extends Model<AccountAttrs> {}
+
+  @Persistence(transfers)
+  class Transfer extends Model<TransferAttrs> {}
+
+  beforeEach(() => {
+    adapter.reset();
+    transfers.reset();
+  });
+
+  it("should restore the store on rollback", async () => {
+    const account = await new Account({ owner: "erin", balance: 10 }).save();
+
+    await assert.rejects(() => transaction(async () => {
+      account.set("balance", 0);
+      await account.save();
+      await new Account({ owner: "frank", balance: 1 }).save();
+      throw new Error("fail");
+    }));
+
+    assert.equal((await Account.get(account.get("id")))?.get("balance"), 10);
+    assert.equal((await Account.all()).length, 1);
+  });
+
+  it("should roll back to a savepoint in a nested transaction", async () => {
+    await transaction(async () => {
+      await new Account({ owner: "kept", balance: 1 }).save();
+      await assert.rejects(() => transaction(async () => {
+        await new Account({ owner: "discarded", balance: 1 }).save();
+        throw new Error("fail");
+      }));
+    });
+
+    assert.deepEqual((await Account.all()).map((account) => account.get("owner")), ["kept"]);
+  });
+
+  it("should queue concurrent transactions and keep outside writes out of a rollback", async () => {
+    let opened!: () => void;
+    const open = new Promise<void>((resolve) => { opened = resolve; });
+    const failing = transaction(async () => {
+      await new Account({ owner: "inside", balance: 1 }).save();
+      opened();
+      await delay(10);
+      throw new Error("fail");
+    });
+    const queued = open.then(() => transaction(async () => {
+      await new Account({ owner: "queued", balance: 2 }).save();
+    }));
+    const outside = open.then(() => new Account({ owner: "outside", balance: 3 }).save());
+
+    await assert.rejects(failing, /fail/);
+    await Promise.all([queued, outside]);
+    const owners = (await Account.all()).map((account) => account.get("owner")).sort();
+    assert.deepEqual(owners, ["outside", "queued"]);
+  });
+
+  it("should restore models saved in a transaction that rolls back", async () => {
+    type LedgerAttrs = { id?: number; owner: string; balance: number; version?: number };
+
+    @Persistence<LedgerAttrs>(createMemoryAdapter<LedgerAttrs>({ primaryKey: "autoincrement" }), {}, { optimisticLocking: true })
+    class Ledger extends Model<LedgerAttrs> {}
+
+    const { id } = (await new Ledger({ owner: "gina", balance: 10 }).save()).getAttributes();
+    await withIdentityMap(async () => {
+      const ledger = (await Ledger.get(id))!;
+      let created!: Ledger;
+      await assert.rejects(() => transaction(async () => {
+        ledger.set("balance", 5);
+        await ledger.save();
+        created = await new Ledger({ owner: "hank", balance: 1 }).save();
+        throw new Error("fail");
+      }), /fail/);
+
+      assert.deepEqual(ledger.getChanges(), { balance: [10, 5] });
+      assert.equal(ledger.get("version"), 0);
+      assert.equal(created.persisted, false);
+      assert.equal(created.get("id"), undefined);
+      assert.equal(await Ledger.get(id), ledger);
+
+      await ledger.save();
+      assert.deepEqual((await Ledger.all()).map((row) => [row.get("balance"), row.get("version")]), [[5, 1]]);
+    });
+  });
+
+  it("should not deadlock transactions that use several stores in different orders", { timeout: 2000 }, async () => {
+    await Promise.all([
+      transaction(async () => {
+        await new Account({ owner: "first", balance: 1 }).save();
+        await delay(10);
+        await new Transfer({ fromId: 1, toId: 2, amount: 1 }).save();
+      }),
+      transaction(async () => {
+        await new Transfer({ fromId: 2, toId: 1, amount: 2 }).save();
+        await delay(10);
+        await new Account({ owner: "second", balance: 2 }).save();
+      }),
+      transaction(async () => {
+        await Promise.all([
+          new Account({ owner: "third", balance: 3 }).save(),
+          new Transfer({ fromId: 3, toId: 1, amount: 3 }).save(),
+        ]);
+      }),
+    ]);
+
+    assert.equal(await Account.count(), 3);
+    assert.equal(await Transfer.count(), 3);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryAdapter, Model, Persistence, ValidationError } from "../src";
+
+type UserAttrs = {
+  id?: string;
+  email: string;
+  name: string;
+  age?: number | null;
+  tags: string[];
+  birthday?: Date;
+  password?: string;
+  passwordConfirmation?: string;
+}
+
+const adapter = createMemoryAdapter<UserAttrs>();
+let preSaveEmail: string | undefined;
+
+@Persistence<UserAttrs>(adapter, {
+  email: {
+    required: true,
+    pattern: /^[^@\s]+@[^@\s]+$/,
+    validate: async (value) => {
+      const existing = await User.where({ email: value }).first();
+      return existing ? "is already taken" : undefined;
+    },
+  },
+  name: { required: true, type: "string", minLength: 2, maxLength: 20 },
+  age: { type: "integer", min: 0, max: 150 },
+  tags: { type: "array", maxLength: 2 },
+  birthday: { type: "date", max: new Date("2100-01-01T00:00:00Z") },
+  passwordConfirmation: { persist: false },
+}, {
+  preSave: async (_context, model) => {
+    if (preSaveEmail !== undefined) model.set("email", preSaveEmail);
+  },
+  validate: (model, addError) => {
+    if (model.get("password") !== model.get("passwordConfirmation")) {
+      addError("passwordConfirmation", "does not match password");
+    }
+  },
+})
+class User extends Model<UserAttrs> {}
+
+describe("Validation", () => {
+  beforeEach(() => {
+    adapter.reset();
+    preSaveEmail = undefined;
+  });
+
+  it("should accept a valid model", async () => {
+    const user = new User({ email: "ann@example.com", name: "Ann", age: 30, tags: ["a"] });
+    assert.deepEqual(await user.validate(), {});
+    assert.equal(await user.isValid(), true);
+    await user.save();
+    assert.equal(user.persisted, true);
+  });
+
+  it("should report built-in rule violations per field", async () => {
+    const user = new User({ email: "", name: "A", age: 2.5, tags: ["a", "b", "c"], birthday: new Date("2200-01-01T00:00:00Z") });
+    assert.deepEqual(await user.validate(), {
+      email: ["is required"],
+      name: ["must have at least 2 characters"],
+      age: ["must be an integer"],
+      tags: ["must have at most 2 items"],
+      birthday: ["must be at most 2100-01-01T00:00:00.000Z"],
+    });
+    assert.equal(await user.isValid(), false);
+  });
+
+  it("should check ranges and patterns", async () => {
+    const user = new User({ email: "not-an-email", name: "Bob", age: -1, tags: [] });
+    assert.deepEqual(await user.validate(), {
+      email: ["is invalid"],
+      age: ["must be at least 0"],
+    });
+  });
+
+  it("should skip rules other than required for missing values", async () => {
+    const user = new User({ email: "carl@example.com", name: "Carl", age: null, tags: [] });
+    assert.deepEqual(await user.validate(), {});
+  });
+
+  it("should run async field validators and model validators", async () => {
+    await new User({ email: "dana@example.com", name: "Dana", tags: [] }).save();
+    const user = new User({ email: "dana@example.com", name: "Dana", tags: [], password: "a", passwordConfirmation: "b" });
+    assert.deepEqual(await user.validate(), {
+      email: ["is already taken"],
+      passwordConfirmation: ["does not match password"],
+    });
+  });
+
+  it("should throw a ValidationError from save without touching the adapter", async () => {
+    const user = new User({ email: "eve@example.com", name: "E", tags: [] });
+    const error = await user.save().then(() => null, (err) => err);
+
+    assert.ok(error instanceof ValidationError);
+    assert.deepEqual(error.errors, { name: ["must have at least 2 characters"] });
+    assert.match(error.message, /name must have at least 2 characters/);
+    assert.equal(user.persisted, false);
+    assert.deepEqual(adapter.snapshot().rows, []);
+  });
+
+  it("should validate values set by the preSave hook", async () => {
+    preSaveEmail = "broken";
+    const user = new User({ email: "frank@example.com", name: "Frank", tags: [] });
+    await assert.rejects(() => user.save(), (err: unknown) => {
+      assert.ok(err instanceof ValidationError);
+      assert.deepEqual(err.errors, { email: ["is invalid"] });
+      return true;
+    });
+  });
+});